@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client'
 import bcrypt from 'bcryptjs'
+import { DEFAULT_RATES } from '../src/lib/pricing/rate-tables'
 
 const prisma = new PrismaClient()
 
@@ -33,6 +34,42 @@ async function main() {
     }
   })
 
+  // Create initial rate table
+  console.log('💲 Creating initial rate table...')
+  await prisma.rateTable.upsert({
+    where: { version: 1 },
+    update: {},
+    create: {
+      name: 'Baseline unit prices',
+      version: 1,
+      effectiveFrom: new Date('2024-01-01'),
+      notes: 'Initial outlet, piping and complexity rates',
+      rates: DEFAULT_RATES,
+      createdBy: adminUser.id
+    }
+  })
+
+  // Create regional cost indexes
+  console.log('📍 Creating regional cost indexes...')
+  const regionalIndexes = [
+    { label: 'New York, NY metro', city: 'New York', state: 'NY', zipPrefix: '100', laborFactor: 1.32, materialFactor: 1.08 },
+    { label: 'San Francisco, CA metro', city: 'San Francisco', state: 'CA', zipPrefix: '941', laborFactor: 1.38, materialFactor: 1.10 },
+    { label: 'Boston, MA metro', city: 'Boston', state: 'MA', zipPrefix: '021', laborFactor: 1.25, materialFactor: 1.05 },
+    { label: 'Chicago, IL metro', city: 'Chicago', state: 'IL', zipPrefix: '606', laborFactor: 1.22, materialFactor: 1.03 },
+    { label: 'Seattle, WA metro', city: 'Seattle', state: 'WA', zipPrefix: '981', laborFactor: 1.15, materialFactor: 1.04 },
+    { label: 'Denver, CO metro', city: 'Denver', state: 'CO', zipPrefix: '802', laborFactor: 0.95, materialFactor: 1.01 },
+    { label: 'Atlanta, GA metro', city: 'Atlanta', state: 'GA', zipPrefix: '303', laborFactor: 0.90, materialFactor: 0.98 },
+    { label: 'Phoenix, AZ metro', city: 'Phoenix', state: 'AZ', zipPrefix: '850', laborFactor: 0.88, materialFactor: 0.99 },
+    { label: 'Houston, TX metro', city: 'Houston', state: 'TX', zipPrefix: '770', laborFactor: 0.86, materialFactor: 0.97 },
+    { label: 'Texas (statewide)', city: null, state: 'TX', zipPrefix: null, laborFactor: 0.84, materialFactor: 0.97 }
+  ]
+
+  if (await prisma.regionalCostIndex.count() === 0) {
+    await prisma.regionalCostIndex.createMany({
+      data: regionalIndexes.map(index => ({ ...index, source: 'DS Arch 2024 metro survey' }))
+    })
+  }
+
   // Create Client Users
   console.log('🏥 Creating client users...')
   const clients = [
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { COST_CODE_CATALOG } from '@/lib/pricing/cost-codes'
+import { UserService } from '@/lib/services/user-service'
+
+// Authentication middleware
+async function authenticate(request: NextRequest) {
+  const authHeader = request.headers.get('authorization')
+  if (!authHeader?.startsWith('Bearer ')) {
+    return null
+  }
+
+  const token = authHeader.substring(7)
+  return await UserService.verifySession(token)
+}
+
+// Error response helper
+function errorResponse(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+// Success response helper
+function successResponse(data: unknown, status = 200) {
+  return NextResponse.json({ success: true, data }, { status })
+}
+
+// GET /api/cost-codes - List the CSI MasterFormat cost-code catalog
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate user
+    const user = await authenticate(request)
+    if (!user) {
+      return errorResponse('Unauthorized', 401)
+    }
+
+    return successResponse(COST_CODE_CATALOG)
+  } catch (error) {
+    console.error('GET /api/cost-codes error:', error)
+    return errorResponse('Internal server error', 500)
+  }
+}
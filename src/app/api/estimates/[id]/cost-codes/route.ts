@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { EstimateService } from '@/lib/services/estimate-service'
+import { UserService } from '@/lib/services/user-service'
+
+// Authentication middleware
+async function authenticate(request: NextRequest) {
+  const authHeader = request.headers.get('authorization')
+  if (!authHeader?.startsWith('Bearer ')) {
+    return null
+  }
+
+  const token = authHeader.substring(7)
+  return await UserService.verifySession(token)
+}
+
+// Error response helper
+function errorResponse(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+// Success response helper
+function successResponse(data: unknown, status = 200) {
+  return NextResponse.json({ success: true, data }, { status })
+}
+
+// GET /api/estimates/[id]/cost-codes - Estimate totals by CSI division and section
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authenticate user
+    const user = await authenticate(request)
+    if (!user) {
+      return errorResponse('Unauthorized', 401)
+    }
+
+    const { id } = await params
+
+    const report = await EstimateService.getCostCodeReport(id, user.id)
+
+    if (!report) {
+      return errorResponse('Estimate not found', 404)
+    }
+
+    return successResponse(report)
+  } catch (error) {
+    console.error('GET /api/estimates/[id]/cost-codes error:', error)
+    return errorResponse('Internal server error', 500)
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { EngineeringReportService } from '@/lib/services/engineering-report-service'
+import { convertReport, parseUnitSystem } from '@/services/engineeringUnits'
+import { UserService } from '@/lib/services/user-service'
+
+// Authentication middleware
+async function authenticate(request: NextRequest) {
+  const authHeader = request.headers.get('authorization')
+  if (!authHeader?.startsWith('Bearer ')) {
+    return null
+  }
+
+  const token = authHeader.substring(7)
+  return await UserService.verifySession(token)
+}
+
+// Error response helper
+function errorResponse(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+// Success response helper
+function successResponse(data: unknown, status = 200) {
+  return NextResponse.json({ success: true, data }, { status })
+}
+
+// GET /api/estimates/[id]/engineering-reports/[reportId]?units=si - Get a stored engineering report
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; reportId: string }> }
+) {
+  try {
+    // Authenticate user
+    const user = await authenticate(request)
+    if (!user) {
+      return errorResponse('Unauthorized', 401)
+    }
+
+    const { id, reportId } = await params
+    const { searchParams } = new URL(request.url)
+    const units = parseUnitSystem(searchParams.get('units'))
+
+    if (!units) {
+      return errorResponse('Invalid units; use imperial or si')
+    }
+
+    const report = await EngineeringReportService.getById(id, reportId, user.id)
+
+    if (!report) {
+      return errorResponse('Engineering report not found', 404)
+    }
+
+    return successResponse(convertReport(report, units))
+  } catch (error) {
+    console.error('GET /api/estimates/[id]/engineering-reports/[reportId] error:', error)
+    return errorResponse('Internal server error', 500)
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { EngineeringReportService } from '@/lib/services/engineering-report-service'
+import { UserService } from '@/lib/services/user-service'
+
+// Authentication middleware
+async function authenticate(request: NextRequest) {
+  const authHeader = request.headers.get('authorization')
+  if (!authHeader?.startsWith('Bearer ')) {
+    return null
+  }
+
+  const token = authHeader.substring(7)
+  return await UserService.verifySession(token)
+}
+
+// Error response helper
+function errorResponse(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+// Success response helper
+function successResponse(data: unknown, status = 200) {
+  return NextResponse.json({ success: true, data }, { status })
+}
+
+// GET /api/estimates/[id]/engineering-reports/compare?from=&to= - Compare two stored reports
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authenticate user
+    const user = await authenticate(request)
+    if (!user) {
+      return errorResponse('Unauthorized', 401)
+    }
+
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const from = searchParams.get('from')
+    const to = searchParams.get('to')
+
+    if (!from || !to) {
+      return errorResponse('Both from and to report IDs are required')
+    }
+
+    const comparison = await EngineeringReportService.compare(id, from, to, user.id)
+
+    if (!comparison) {
+      return errorResponse('Engineering report not found', 404)
+    }
+
+    return successResponse(comparison)
+  } catch (error) {
+    console.error('GET /api/estimates/[id]/engineering-reports/compare error:', error)
+    return errorResponse('Internal server error', 500)
+  }
+}
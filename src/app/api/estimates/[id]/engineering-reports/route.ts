@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { EngineeringReportService } from '@/lib/services/engineering-report-service'
+import { UserService } from '@/lib/services/user-service'
+import { z } from 'zod'
+
+// Authentication middleware
+async function authenticate(request: NextRequest) {
+  const authHeader = request.headers.get('authorization')
+  if (!authHeader?.startsWith('Bearer ')) {
+    return null
+  }
+
+  const token = authHeader.substring(7)
+  return await UserService.verifySession(token)
+}
+
+// Error response helper
+function errorResponse(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+// Success response helper
+function successResponse(data: unknown, status = 200) {
+  return NextResponse.json({ success: true, data }, { status })
+}
+
+// GET /api/estimates/[id]/engineering-reports - List stored engineering reports, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authenticate user
+    const user = await authenticate(request)
+    if (!user) {
+      return errorResponse('Unauthorized', 401)
+    }
+
+    const { id } = await params
+
+    const reports = await EngineeringReportService.list(id, user.id)
+
+    if (!reports) {
+      return errorResponse('Estimate not found', 404)
+    }
+
+    return successResponse(reports)
+  } catch (error) {
+    console.error('GET /api/estimates/[id]/engineering-reports error:', error)
+    return errorResponse('Internal server error', 500)
+  }
+}
+
+// POST /api/estimates/[id]/engineering-reports - Run and store an engineering report
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authenticate user
+    const user = await authenticate(request)
+    if (!user) {
+      return errorResponse('Unauthorized', 401)
+    }
+
+    const { id } = await params
+
+    // Parse request body
+    const body = await request.json()
+
+    const report = await EngineeringReportService.generate(id, user.id, body)
+
+    if (!report) {
+      return errorResponse('Estimate not found', 404)
+    }
+
+    return successResponse(report, 201)
+  } catch (error) {
+    console.error('POST /api/estimates/[id]/engineering-reports error:', error)
+
+    if (error instanceof z.ZodError) {
+      return errorResponse(`Validation error: ${error.errors.map(e => e.message).join(', ')}`)
+    }
+
+    if (error instanceof Error) {
+      return errorResponse(error.message)
+    }
+
+    return errorResponse('Internal server error', 500)
+  }
+}
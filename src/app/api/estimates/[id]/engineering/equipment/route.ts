@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { EngineeringReportService } from '@/lib/services/engineering-report-service'
+import { UserService } from '@/lib/services/user-service'
+import { z } from 'zod'
+
+// Authentication middleware
+async function authenticate(request: NextRequest) {
+  const authHeader = request.headers.get('authorization')
+  if (!authHeader?.startsWith('Bearer ')) {
+    return null
+  }
+
+  const token = authHeader.substring(7)
+  return await UserService.verifySession(token)
+}
+
+// Error response helper
+function errorResponse(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+// Success response helper
+function successResponse(data: unknown, status = 200) {
+  return NextResponse.json({ success: true, data }, { status })
+}
+
+// POST /api/estimates/[id]/engineering/equipment - Size the source plants and write them to the estimate's equipment
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authenticate user
+    const user = await authenticate(request)
+    if (!user) {
+      return errorResponse('Unauthorized', 401)
+    }
+
+    const { id } = await params
+
+    // Parse request body; takes the same inputs as the engineering analysis
+    const body = await request.json()
+
+    const estimate = await EngineeringReportService.applySourceEquipment(id, user.id, body)
+
+    if (!estimate) {
+      return errorResponse('Estimate not found', 404)
+    }
+
+    return successResponse(estimate)
+  } catch (error) {
+    console.error('POST /api/estimates/[id]/engineering/equipment error:', error)
+
+    if (error instanceof z.ZodError) {
+      return errorResponse(`Validation error: ${error.errors.map(e => e.message).join(', ')}`)
+    }
+
+    if (error instanceof Error) {
+      return errorResponse(error.message)
+    }
+
+    return errorResponse('Internal server error', 500)
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { EngineeringReportService } from '@/lib/services/engineering-report-service'
+import { convertReport, parseUnitSystem } from '@/services/engineeringUnits'
+import { UserService } from '@/lib/services/user-service'
+import { z } from 'zod'
+
+// Authentication middleware
+async function authenticate(request: NextRequest) {
+  const authHeader = request.headers.get('authorization')
+  if (!authHeader?.startsWith('Bearer ')) {
+    return null
+  }
+
+  const token = authHeader.substring(7)
+  return await UserService.verifySession(token)
+}
+
+// Error response helper
+function errorResponse(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+// Success response helper
+function successResponse(data: unknown, status = 200) {
+  return NextResponse.json({ success: true, data }, { status })
+}
+
+// GET /api/estimates/[id]/engineering?units=si - Run the engineering analysis on the estimate's rooms
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authenticate user
+    const user = await authenticate(request)
+    if (!user) {
+      return errorResponse('Unauthorized', 401)
+    }
+
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const units = parseUnitSystem(searchParams.get('units'))
+
+    if (!units) {
+      return errorResponse('Invalid units; use imperial or si')
+    }
+
+    const analysis = await EngineeringReportService.analyze(id, user.id)
+
+    if (!analysis) {
+      return errorResponse('Estimate not found', 404)
+    }
+
+    return successResponse(convertReport(analysis, units))
+  } catch (error) {
+    console.error('GET /api/estimates/[id]/engineering error:', error)
+    return errorResponse('Internal server error', 500)
+  }
+}
+
+// POST /api/estimates/[id]/engineering - Run the analysis with room overrides, networks or supply options
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authenticate user
+    const user = await authenticate(request)
+    if (!user) {
+      return errorResponse('Unauthorized', 401)
+    }
+
+    const { id } = await params
+
+    // Parse request body
+    const body = await request.json()
+
+    const analysis = await EngineeringReportService.analyze(id, user.id, body)
+
+    if (!analysis) {
+      return errorResponse('Estimate not found', 404)
+    }
+
+    // Results come back in the same unit system as the inputs
+    return successResponse(convertReport(analysis, body.units === 'si' ? 'si' : 'imperial'))
+  } catch (error) {
+    console.error('POST /api/estimates/[id]/engineering error:', error)
+
+    if (error instanceof z.ZodError) {
+      return errorResponse(`Validation error: ${error.errors.map(e => e.message).join(', ')}`)
+    }
+
+    if (error instanceof Error) {
+      return errorResponse(error.message)
+    }
+
+    return errorResponse('Internal server error', 500)
+  }
+}
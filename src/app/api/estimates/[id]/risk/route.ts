@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { EstimateService } from '@/lib/services/estimate-service'
+import { UserService } from '@/lib/services/user-service'
+import { z } from 'zod'
+
+// Authentication middleware
+async function authenticate(request: NextRequest) {
+  const authHeader = request.headers.get('authorization')
+  if (!authHeader?.startsWith('Bearer ')) {
+    return null
+  }
+
+  const token = authHeader.substring(7)
+  return await UserService.verifySession(token)
+}
+
+// Error response helper
+function errorResponse(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+// Success response helper
+function successResponse(data: unknown, status = 200) {
+  return NextResponse.json({ success: true, data }, { status })
+}
+
+// POST /api/estimates/[id]/risk - Run a seeded Monte Carlo risk analysis
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authenticate user
+    const user = await authenticate(request)
+    if (!user) {
+      return errorResponse('Unauthorized', 401)
+    }
+
+    const { id } = await params
+
+    // Parse request body
+    const body = await request.json()
+
+    const analysis = await EstimateService.analyzeRisk(id, user.id, body)
+
+    if (!analysis) {
+      return errorResponse('Estimate not found', 404)
+    }
+
+    return successResponse(analysis)
+  } catch (error) {
+    console.error('POST /api/estimates/[id]/risk error:', error)
+
+    if (error instanceof z.ZodError) {
+      return errorResponse(`Validation error: ${error.errors.map(e => e.message).join(', ')}`)
+    }
+
+    if (error instanceof Error) {
+      return errorResponse(error.message)
+    }
+
+    return errorResponse('Internal server error', 500)
+  }
+}
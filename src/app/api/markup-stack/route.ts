@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { MarkupService } from '@/lib/services/markup-service'
+import { UserService } from '@/lib/services/user-service'
+import { z } from 'zod'
+
+// Authentication middleware
+async function authenticate(request: NextRequest) {
+  const authHeader = request.headers.get('authorization')
+  if (!authHeader?.startsWith('Bearer ')) {
+    return null
+  }
+
+  const token = authHeader.substring(7)
+  return await UserService.verifySession(token)
+}
+
+// Error response helper
+function errorResponse(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+// Success response helper
+function successResponse(data: unknown, status = 200) {
+  return NextResponse.json({ success: true, data }, { status })
+}
+
+// GET /api/markup-stack - Get the organization default markup stack
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate user
+    const user = await authenticate(request)
+    if (!user) {
+      return errorResponse('Unauthorized', 401)
+    }
+
+    const stack = await MarkupService.getOrgDefault()
+    return successResponse(stack)
+  } catch (error) {
+    console.error('GET /api/markup-stack error:', error)
+    return errorResponse('Internal server error', 500)
+  }
+}
+
+// PUT /api/markup-stack - Replace the organization default markup stack (admin only)
+export async function PUT(request: NextRequest) {
+  try {
+    // Authenticate user
+    const user = await authenticate(request)
+    if (!user) {
+      return errorResponse('Unauthorized', 401)
+    }
+
+    if (user.role !== 'ADMIN' && user.role !== 'SUPER_ADMIN') {
+      return errorResponse('Forbidden', 403)
+    }
+
+    // Parse request body
+    const body = await request.json()
+
+    const stack = await MarkupService.setOrgDefault(user.id, body)
+
+    return successResponse(stack)
+  } catch (error) {
+    console.error('PUT /api/markup-stack error:', error)
+
+    if (error instanceof z.ZodError) {
+      return errorResponse(`Validation error: ${error.errors.map(e => e.message).join(', ')}`)
+    }
+
+    if (error instanceof Error) {
+      return errorResponse(error.message)
+    }
+
+    return errorResponse('Internal server error', 500)
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { RateTableService } from '@/lib/services/rate-table-service'
+import { UserService } from '@/lib/services/user-service'
+import { z } from 'zod'
+
+// Authentication middleware
+async function authenticate(request: NextRequest) {
+  const authHeader = request.headers.get('authorization')
+  if (!authHeader?.startsWith('Bearer ')) {
+    return null
+  }
+
+  const token = authHeader.substring(7)
+  return await UserService.verifySession(token)
+}
+
+// Error response helper
+function errorResponse(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+// Success response helper
+function successResponse(data: unknown, status = 200) {
+  return NextResponse.json({ success: true, data }, { status })
+}
+
+// GET /api/rate-tables/[id] - Get rate table by ID
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authenticate user
+    const user = await authenticate(request)
+    if (!user) {
+      return errorResponse('Unauthorized', 401)
+    }
+
+    const { id } = await params
+
+    const rateTable = await RateTableService.getById(id)
+
+    if (!rateTable) {
+      return errorResponse('Rate table not found', 404)
+    }
+
+    return successResponse(rateTable)
+  } catch (error) {
+    console.error('GET /api/rate-tables/[id] error:', error)
+    return errorResponse('Internal server error', 500)
+  }
+}
+
+// PUT /api/rate-tables/[id] - Edit a rate table that is not yet in effect (admin only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authenticate user
+    const user = await authenticate(request)
+    if (!user) {
+      return errorResponse('Unauthorized', 401)
+    }
+
+    if (user.role !== 'ADMIN' && user.role !== 'SUPER_ADMIN') {
+      return errorResponse('Forbidden', 403)
+    }
+
+    const { id } = await params
+
+    // Parse request body
+    const body = await request.json()
+
+    // Update rate table
+    const rateTable = await RateTableService.update(id, user.id, body)
+
+    return successResponse(rateTable)
+  } catch (error) {
+    console.error('PUT /api/rate-tables/[id] error:', error)
+
+    if (error instanceof z.ZodError) {
+      return errorResponse(`Validation error: ${error.errors.map(e => e.message).join(', ')}`)
+    }
+
+    if (error instanceof Error) {
+      return errorResponse(error.message)
+    }
+
+    return errorResponse('Internal server error', 500)
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { RateTableService } from '@/lib/services/rate-table-service'
+import { UserService } from '@/lib/services/user-service'
+import { z } from 'zod'
+
+// Authentication helper; pages priced in the browser send the session cookie
+async function authenticate(request: NextRequest) {
+  // Get token from cookie or authorization header
+  const cookieToken = request.cookies.get('auth-token')?.value
+  const authHeader = request.headers.get('authorization')
+  const headerToken = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : null
+
+  const token = cookieToken || headerToken
+
+  if (!token) {
+    return null
+  }
+
+  return await UserService.verifySession(token)
+}
+
+// Error response helper
+function errorResponse(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+// Success response helper
+function successResponse(data: unknown, status = 200) {
+  return NextResponse.json({ success: true, data }, { status })
+}
+
+// GET /api/rate-tables - List rate table versions, or the one effective on ?asOf=
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate user
+    const user = await authenticate(request)
+    if (!user) {
+      return errorResponse('Unauthorized', 401)
+    }
+
+    const { searchParams } = new URL(request.url)
+    const asOf = searchParams.get('asOf')
+
+    if (asOf) {
+      const date = new Date(asOf)
+      if (isNaN(date.getTime())) {
+        return errorResponse('Invalid asOf date')
+      }
+
+      const rateTable = await RateTableService.getEffective(date)
+      if (!rateTable) {
+        return errorResponse('No rate table in effect on that date', 404)
+      }
+
+      return successResponse(rateTable)
+    }
+
+    const rateTables = await RateTableService.list()
+    return successResponse(rateTables)
+  } catch (error) {
+    console.error('GET /api/rate-tables error:', error)
+    return errorResponse('Internal server error', 500)
+  }
+}
+
+// POST /api/rate-tables - Publish a new rate table version (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate user
+    const user = await authenticate(request)
+    if (!user) {
+      return errorResponse('Unauthorized', 401)
+    }
+
+    if (user.role !== 'ADMIN' && user.role !== 'SUPER_ADMIN') {
+      return errorResponse('Forbidden', 403)
+    }
+
+    // Parse request body
+    const body = await request.json()
+
+    // Create rate table
+    const rateTable = await RateTableService.create(user.id, body)
+
+    return successResponse(rateTable, 201)
+  } catch (error) {
+    console.error('POST /api/rate-tables error:', error)
+
+    if (error instanceof z.ZodError) {
+      return errorResponse(`Validation error: ${error.errors.map(e => e.message).join(', ')}`)
+    }
+
+    if (error instanceof Error) {
+      return errorResponse(error.message)
+    }
+
+    return errorResponse('Internal server error', 500)
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { RegionalCostService } from '@/lib/services/regional-cost-service'
+import { UserService } from '@/lib/services/user-service'
+import { z } from 'zod'
+
+// Authentication middleware
+async function authenticate(request: NextRequest) {
+  const authHeader = request.headers.get('authorization')
+  if (!authHeader?.startsWith('Bearer ')) {
+    return null
+  }
+
+  const token = authHeader.substring(7)
+  return await UserService.verifySession(token)
+}
+
+// Error response helper
+function errorResponse(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+// Success response helper
+function successResponse(data: unknown, status = 200) {
+  return NextResponse.json({ success: true, data }, { status })
+}
+
+// GET /api/regional-cost-indexes - List indexes, or resolve the one for ?location=
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate user
+    const user = await authenticate(request)
+    if (!user) {
+      return errorResponse('Unauthorized', 401)
+    }
+
+    const { searchParams } = new URL(request.url)
+    const location = searchParams.get('location')
+
+    if (location) {
+      const factor = await RegionalCostService.resolve(location)
+      return successResponse(factor)
+    }
+
+    const indexes = await RegionalCostService.list(searchParams.get('state') || undefined)
+    return successResponse(indexes)
+  } catch (error) {
+    console.error('GET /api/regional-cost-indexes error:', error)
+    return errorResponse('Internal server error', 500)
+  }
+}
+
+// POST /api/regional-cost-indexes - Add a regional index (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate user
+    const user = await authenticate(request)
+    if (!user) {
+      return errorResponse('Unauthorized', 401)
+    }
+
+    if (user.role !== 'ADMIN' && user.role !== 'SUPER_ADMIN') {
+      return errorResponse('Forbidden', 403)
+    }
+
+    // Parse request body
+    const body = await request.json()
+
+    const index = await RegionalCostService.create(user.id, body)
+
+    return successResponse(index, 201)
+  } catch (error) {
+    console.error('POST /api/regional-cost-indexes error:', error)
+
+    if (error instanceof z.ZodError) {
+      return errorResponse(`Validation error: ${error.errors.map(e => e.message).join(', ')}`)
+    }
+
+    if (error instanceof Error) {
+      return errorResponse(error.message)
+    }
+
+    return errorResponse('Internal server error', 500)
+  }
+}
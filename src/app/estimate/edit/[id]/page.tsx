@@ -29,6 +29,45 @@ import {
 import jsPDF from 'jspdf';
 import QRCode from 'qrcode';
 import EmailEstimate from '@/components/EmailEstimate';
+import { NATIONAL_AVERAGE, RegionalCostFactor } from '@/lib/pricing/regional-index';
+import { DEFAULT_MARKUP_STACK, MarkupEntry, describeMarkup } from '@/lib/pricing/markups';
+import { DEFAULT_RATES, RateTableRates } from '@/lib/pricing/rate-tables';
+import { DEFAULT_ANNUAL_ESCALATION_RATE, EscalationInput } from '@/lib/pricing/escalation';
+import {
+  AlternateResult,
+  CostSummary,
+  PricingAlternate,
+  PricingEquipment,
+  PricingRoom,
+  RedundancyLevel,
+  priceCostCodeReport,
+  priceEstimate,
+  toCostSummary
+} from '@/lib/pricing/engine';
+
+const formatAlternate = (alternate: AlternateResult) =>
+  `${alternate.type === 'ADD' ? 'Add' : 'Deduct'} Alt ${alternate.number}: ${alternate.name}`;
+
+// Construction schedule the estimate escalates to, falling back to the one it was last priced with
+const resolveEscalationInput = (estimate: EstimateData): EscalationInput | null => {
+  const applied = estimate.costs?.escalation;
+  const startDate = estimate.constructionStartDate ?? applied?.startDate ?? null;
+  const durationMonths = estimate.constructionDuration ?? applied?.durationMonths ?? null;
+  const pricingDate = estimate.pricingDate ?? applied?.pricingDate ?? null;
+
+  if (!durationMonths && !startDate) {
+    return null;
+  }
+
+  return {
+    startDate: startDate ? new Date(startDate) : null,
+    durationMonths: durationMonths ?? 0,
+    annualRate: estimate.escalationRate != null
+      ? Number(estimate.escalationRate)
+      : applied?.annualRate ?? DEFAULT_ANNUAL_ESCALATION_RATE,
+    pricingDate: pricingDate ? new Date(pricingDate) : undefined
+  };
+};
 
 interface EstimateVersion {
   id: string;
@@ -53,14 +92,14 @@ interface EstimateData {
   projectData: any;
   rooms: any[];
   equipment: any[];
-  costs: {
-    equipment: number;
-    installation: number;
-    medicalGas: number;
-    compliance: number;
-    contingency: number;
-    total: number;
-  };
+  alternates?: PricingAlternate[];
+  rates?: RateTableRates; // rate table the estimate was priced with; older estimates omit it
+  constructionStartDate?: string | null;
+  constructionDuration?: number | null; // months
+  escalationRate?: number | string | null; // annual, e.g. 0.04
+  pricingDate?: string | null;
+  medicalGasRequirements?: { redundancyLevel?: RedundancyLevel };
+  costs: CostSummary;
   totalCost: number;
   createdAt: string;
   lastModified: string;
@@ -103,7 +142,13 @@ export default function EditEstimatePage() {
 
   const [rooms, setRooms] = useState<any[]>([]);
   const [equipment, setEquipment] = useState<any[]>([]);
-  const [costs, setCosts] = useState({
+  const [regionalFactor, setRegionalFactor] = useState<Pick<RegionalCostFactor, 'id' | 'label' | 'laborFactor' | 'materialFactor'>>(NATIONAL_AVERAGE);
+  const [markupStack, setMarkupStack] = useState<MarkupEntry[]>(DEFAULT_MARKUP_STACK);
+  const [alternates, setAlternates] = useState<PricingAlternate[]>([]);
+  const [rates, setRates] = useState<RateTableRates>(DEFAULT_RATES);
+  const [redundancyLevel, setRedundancyLevel] = useState<RedundancyLevel>('Single');
+  const [escalation, setEscalation] = useState<EscalationInput | null>(null);
+  const [costs, setCosts] = useState<CostSummary>({
     equipment: 0,
     installation: 0,
     medicalGas: 0,
@@ -160,6 +205,31 @@ export default function EditEstimatePage() {
 
     setRooms(estimate.rooms || []);
     setEquipment(estimate.equipment || []);
+    setAlternates(estimate.alternates || []);
+
+    // Reprice on the rate table and redundancy the estimate was created with
+    setRates(estimate.rates || DEFAULT_RATES);
+    setRedundancyLevel(estimate.medicalGasRequirements?.redundancyLevel || 'Single');
+
+    // Escalate from the same pricing date to the same construction midpoint
+    setEscalation(resolveEscalationInput(estimate));
+
+    // Keep applying the location factors the estimate was priced with
+    const appliedRegion = estimate.costs?.regionalAdjustment;
+    if (appliedRegion) {
+      setRegionalFactor({
+        id: appliedRegion.regionalCostIndexId ?? undefined,
+        label: appliedRegion.label,
+        laborFactor: appliedRegion.laborFactor,
+        materialFactor: appliedRegion.materialFactor
+      });
+    }
+
+    // ...and the markup stack it was priced with
+    if (estimate.costs?.markups) {
+      setMarkupStack(estimate.costs.markups.map(({ key, label, rate, method, basis }: MarkupEntry) => ({ key, label, rate, method, basis })));
+    }
+
     setCosts(estimate.costs || {
       equipment: 0,
       installation: 0,
@@ -172,70 +242,18 @@ export default function EditEstimatePage() {
 
   // Calculate costs when data changes
   const calculateCosts = useCallback(() => {
-    const equipmentCost = equipment.reduce((sum, item) => sum + (item.quantity * item.unitCost), 0);
-    const installationCost = equipment.reduce((sum, item) => sum + item.installationCost, 0);
-
-    // Medical gas costs based on outlets with pressure calculations
-    const totalOutlets = rooms.reduce((sum, room) =>
-      sum + room.oxygenOutlets + room.airOutlets + room.vacuumOutlets + room.co2Outlets + room.n2oOutlets, 0
-    );
-
-    // Enhanced medical gas calculations
-    const medicalGasCost = calculateMedicalGasCost(rooms);
-
-    const subtotal = equipmentCost + installationCost + medicalGasCost;
-    const complianceCost = subtotal * 0.15; // 15% for compliance
-    const contingencyCost = subtotal * 0.10; // 10% contingency
-
-    const total = subtotal + complianceCost + contingencyCost;
-
-    const newCosts = {
-      equipment: equipmentCost,
-      installation: installationCost,
-      medicalGas: medicalGasCost,
-      compliance: complianceCost,
-      contingency: contingencyCost,
-      total
-    };
-
-    setCosts(newCosts);
-    checkForChanges();
-  }, [equipment, rooms]);
-
-  // Enhanced medical gas cost calculation
-  const calculateMedicalGasCost = (roomsData: any[]) => {
-    let totalCost = 0;
-
-    roomsData.forEach(room => {
-      // Base outlet costs
-      const outletCosts = {
-        oxygen: room.oxygenOutlets * 1500, // Higher cost for O2 due to pressure requirements
-        air: room.airOutlets * 1200,
-        vacuum: room.vacuumOutlets * 1400,
-        co2: room.co2Outlets * 1300,
-        n2o: room.n2oOutlets * 1350
-      };
-
-      // Area-based piping costs (per sq ft)
-      const pipingCost = room.area * 25;
-
-      // Room type complexity multiplier
-      const complexityMultipliers = {
-        'Operating Room': 1.5,
-        'ICU': 1.3,
-        'Emergency Room': 1.4,
-        'Recovery Room': 1.1,
-        'Patient Room': 1.0
-      };
-
-      const multiplier = complexityMultipliers[room.type as keyof typeof complexityMultipliers] || 1.0;
-      const roomTotal = (Object.values(outletCosts).reduce((sum: number, cost: number) => sum + cost, 0) + pipingCost) * multiplier;
-
-      totalCost += roomTotal;
+    const result = priceEstimate(rooms, equipment, {
+      rates,
+      redundancyLevel,
+      region: regionalFactor,
+      escalation,
+      markupStack,
+      alternates
     });
 
-    return totalCost;
-  };
+    setCosts(toCostSummary(result));
+    checkForChanges();
+  }, [equipment, rooms, rates, redundancyLevel, regionalFactor, escalation, markupStack, alternates]);
 
   useEffect(() => {
     calculateCosts();
@@ -249,6 +267,7 @@ export default function EditEstimatePage() {
       projectData,
       rooms,
       equipment,
+      alternates,
       costs
     };
 
@@ -256,6 +275,7 @@ export default function EditEstimatePage() {
       projectData: originalData.projectData,
       rooms: originalData.rooms,
       equipment: originalData.equipment,
+      alternates: originalData.alternates || [],
       costs: originalData.costs
     });
 
@@ -294,6 +314,14 @@ export default function EditEstimatePage() {
           timestamp: new Date().toISOString()
         });
       }
+      if (JSON.stringify(alternates) !== JSON.stringify(originalData?.alternates || [])) {
+        changes.push({
+          field: 'Bid Alternates',
+          oldValue: originalData?.alternates,
+          newValue: alternates,
+          timestamp: new Date().toISOString()
+        });
+      }
 
       const newVersion: EstimateVersion = {
         id: Math.random().toString(36).substr(2, 9),
@@ -316,6 +344,7 @@ export default function EditEstimatePage() {
         projectData,
         rooms,
         equipment,
+        alternates,
         costs,
         totalCost: costs.total,
         lastModified: new Date().toISOString(),
@@ -384,13 +413,63 @@ export default function EditEstimatePage() {
       yPos += 8;
       pdf.text(`Medical Gas Systems: $${costs.medicalGas.toLocaleString()}`, 20, yPos);
       yPos += 8;
-      pdf.text(`Compliance: $${costs.compliance.toLocaleString()}`, 20, yPos);
-      yPos += 8;
-      pdf.text(`Contingency: $${costs.contingency.toLocaleString()}`, 20, yPos);
-      yPos += 15;
+      if (costs.regionalAdjustment && costs.regionalAdjustment.amount !== 0) {
+        const region = costs.regionalAdjustment;
+        pdf.text(`Regional Adjustment (${region.label}: labor x${region.laborFactor}, material x${region.materialFactor}): $${region.amount.toLocaleString()}`, 20, yPos);
+        yPos += 8;
+      }
+      if (costs.escalation && costs.escalation.amount !== 0) {
+        const applied = costs.escalation;
+        pdf.text(`Escalation to Midpoint (${(applied.annualRate * 100).toFixed(1)}%/yr, ${applied.monthsToMidpoint.toFixed(1)} months): $${Math.round(applied.amount).toLocaleString()}`, 20, yPos);
+        yPos += 8;
+      }
+      (costs.markups ?? []).filter(markup => markup.amount !== 0).forEach(markup => {
+        pdf.text(`${markup.label} (${describeMarkup(markup)}): $${Math.round(markup.amount).toLocaleString()}`, 20, yPos);
+        yPos += 8;
+      });
+      yPos += 7;
 
       pdf.setFontSize(14);
-      pdf.text(`Total: $${costs.total.toLocaleString()}`, 20, yPos);
+      pdf.text(`${costs.alternates?.length ? 'Base Bid' : 'Total'}: $${costs.total.toLocaleString()}`, 20, yPos);
+
+      // Alternates, priced separately from the base bid
+      if (costs.alternates && costs.alternates.length > 0) {
+        yPos += 12;
+        pdf.setFontSize(12);
+        pdf.text('Alternates:', 20, yPos);
+        yPos += 8;
+
+        pdf.setFontSize(10);
+        costs.alternates.forEach(alternate => {
+          const sign = alternate.amount < 0 ? '-' : '+';
+          pdf.text(`${formatAlternate(alternate)}: ${sign}$${Math.round(Math.abs(alternate.amount)).toLocaleString()}`, 20, yPos);
+          yPos += 6;
+        });
+      }
+
+      // Cost by CSI MasterFormat division and section
+      const costCodeReport = priceCostCodeReport(rooms, equipment, { rates, redundancyLevel, region: regionalFactor, escalation, markupStack });
+      if (costCodeReport.directCost.divisions.length > 0) {
+        yPos += 20;
+        pdf.setFontSize(12);
+        pdf.text('Cost by CSI Division:', 20, yPos);
+        yPos += 10;
+
+        pdf.setFontSize(8);
+        costCodeReport.directCost.divisions.forEach(division => {
+          if (yPos > 260) {
+            pdf.addPage();
+            yPos = 30;
+          }
+          pdf.text(`Division ${division.division} - ${division.title}: $${Math.round(division.total).toLocaleString()}`, 20, yPos);
+          yPos += 6;
+          division.sections.forEach(section => {
+            pdf.text(`  ${section.code} ${section.title}: $${Math.round(section.total).toLocaleString()}`, 25, yPos);
+            yPos += 6;
+          });
+        });
+        pdf.text(`Adjustments & markups: $${Math.round(costs.total - costCodeReport.directCost.total).toLocaleString()}`, 20, yPos);
+      }
 
       // Version History
       if (estimateData?.versions && estimateData.versions.length > 0) {
@@ -434,6 +513,10 @@ export default function EditEstimatePage() {
       vacuumOutlets: 4,
       co2Outlets: 0,
       n2oOutlets: 2,
+      wagdOutlets: 2,
+      nitrogenOutlets: 0,
+      instrumentAirOutlets: 0,
+      argonOutlets: 0,
       // Enhanced properties for medical gas calculations
       ceilingHeight: 10,
       pressureRequirement: 'Standard',
@@ -458,6 +541,40 @@ export default function EditEstimatePage() {
     setHasUnsavedChanges(true);
   };
 
+  // Bid alternate management
+  const addAlternate = () => {
+    setAlternates([...alternates, {
+      id: Math.random().toString(36).substr(2, 9),
+      name: `Alternate ${alternates.length + 1}`,
+      type: 'ADD',
+      rooms: [],
+      equipment: []
+    }]);
+    setHasUnsavedChanges(true);
+  };
+
+  const updateAlternate = (index: number, changes: Partial<PricingAlternate>) => {
+    setAlternates(alternates.map((alternate, i) => i === index ? { ...alternate, ...changes } : alternate));
+    setHasUnsavedChanges(true);
+  };
+
+  const removeAlternate = (index: number) => {
+    setAlternates(alternates.filter((_, i) => i !== index));
+    setHasUnsavedChanges(true);
+  };
+
+  const updateAlternateRoom = (index: number, roomIndex: number, changes: Partial<PricingRoom>) => {
+    updateAlternate(index, {
+      rooms: alternates[index].rooms.map((room, i) => i === roomIndex ? { ...room, ...changes } : room)
+    });
+  };
+
+  const updateAlternateEquipment = (index: number, itemIndex: number, changes: Partial<PricingEquipment>) => {
+    updateAlternate(index, {
+      equipment: alternates[index].equipment.map((item, i) => i === itemIndex ? { ...item, ...changes } : item)
+    });
+  };
+
   const nextStep = () => {
     if (currentStep < 4) setCurrentStep(currentStep + 1);
   };
@@ -765,6 +882,68 @@ export default function EditEstimatePage() {
                         />
                       </div>
                     </div>
+
+                    <div className="mt-4 grid grid-cols-4 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">WAGD</label>
+                        <input
+                          type="number"
+                          value={room.wagdOutlets ?? 0}
+                          onChange={(e) => {
+                            const newRooms = [...rooms];
+                            newRooms[index].wagdOutlets = parseInt(e.target.value) || 0;
+                            setRooms(newRooms);
+                            setHasUnsavedChanges(true);
+                          }}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+                        />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Nitrogen</label>
+                        <input
+                          type="number"
+                          value={room.nitrogenOutlets ?? 0}
+                          onChange={(e) => {
+                            const newRooms = [...rooms];
+                            newRooms[index].nitrogenOutlets = parseInt(e.target.value) || 0;
+                            setRooms(newRooms);
+                            setHasUnsavedChanges(true);
+                          }}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+                        />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Instrument Air</label>
+                        <input
+                          type="number"
+                          value={room.instrumentAirOutlets ?? 0}
+                          onChange={(e) => {
+                            const newRooms = [...rooms];
+                            newRooms[index].instrumentAirOutlets = parseInt(e.target.value) || 0;
+                            setRooms(newRooms);
+                            setHasUnsavedChanges(true);
+                          }}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+                        />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Argon</label>
+                        <input
+                          type="number"
+                          value={room.argonOutlets ?? 0}
+                          onChange={(e) => {
+                            const newRooms = [...rooms];
+                            newRooms[index].argonOutlets = parseInt(e.target.value) || 0;
+                            setRooms(newRooms);
+                            setHasUnsavedChanges(true);
+                          }}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+                        />
+                      </div>
+                    </div>
                   </div>
 
                   <div className="grid md:grid-cols-2 gap-4">
@@ -967,6 +1146,183 @@ export default function EditEstimatePage() {
                 </div>
               ))}
             </div>
+
+            <div className="pt-6 border-t border-gray-200 space-y-6">
+              <div className="flex justify-between items-center">
+                <div>
+                  <h3 className="text-xl font-bold text-gray-900">Bid Alternates</h3>
+                  <p className="text-sm text-gray-600">Rooms and equipment priced separately as add or deduct alternates</p>
+                </div>
+                <button
+                  onClick={addAlternate}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+                >
+                  <FileText className="h-4 w-4" />
+                  <span>Add Alternate</span>
+                </button>
+              </div>
+
+              {alternates.map((alternate, index) => (
+                <div key={alternate.id || index} className="bg-gray-50 rounded-lg p-6 border border-gray-200 space-y-4">
+                  <div className="grid md:grid-cols-4 gap-4 items-end">
+                    <div className="md:col-span-2">
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Alternate Name</label>
+                      <input
+                        type="text"
+                        value={alternate.name}
+                        onChange={(e) => updateAlternate(index, { name: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
+                      <select
+                        value={alternate.type}
+                        onChange={(e) => updateAlternate(index, { type: e.target.value as PricingAlternate['type'] })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+                      >
+                        <option value="ADD">Add</option>
+                        <option value="DEDUCT">Deduct</option>
+                      </select>
+                    </div>
+
+                    <button
+                      onClick={() => removeAlternate(index)}
+                      className="px-4 py-2 border border-red-300 text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                    >
+                      Remove Alternate
+                    </button>
+                  </div>
+
+                  <div>
+                    <div className="flex justify-between items-center mb-2">
+                      <h4 className="text-sm font-medium text-gray-700">Rooms</h4>
+                      <button
+                        onClick={() => updateAlternate(index, {
+                          rooms: [...alternate.rooms, { name: `Room ${alternate.rooms.length + 1}`, type: 'Patient Room', area: 200, oxygenOutlets: 1, airOutlets: 1, vacuumOutlets: 1 }]
+                        })}
+                        className="text-blue-600 hover:text-blue-700 text-sm flex items-center space-x-1"
+                      >
+                        <Building className="h-4 w-4" />
+                        <span>Add Room</span>
+                      </button>
+                    </div>
+                    {alternate.rooms.map((room, roomIndex) => (
+                      <div key={roomIndex} className="grid md:grid-cols-7 gap-2 mb-2 items-center">
+                        <input
+                          type="text"
+                          value={room.name || ''}
+                          onChange={(e) => updateAlternateRoom(index, roomIndex, { name: e.target.value })}
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                          placeholder="Room name"
+                        />
+                        <select
+                          value={room.type}
+                          onChange={(e) => updateAlternateRoom(index, roomIndex, { type: e.target.value })}
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                        >
+                          <option value="Operating Room">Operating Room</option>
+                          <option value="Recovery Room">Recovery Room</option>
+                          <option value="ICU">ICU</option>
+                          <option value="Emergency Room">Emergency Room</option>
+                          <option value="Patient Room">Patient Room</option>
+                          <option value="NICU">NICU</option>
+                          <option value="Surgical Suite">Surgical Suite</option>
+                        </select>
+                        <input
+                          type="number"
+                          value={room.area}
+                          onChange={(e) => updateAlternateRoom(index, roomIndex, { area: parseInt(e.target.value) || 0 })}
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                          title="Area (sq ft)"
+                        />
+                        <input
+                          type="number"
+                          value={room.oxygenOutlets}
+                          onChange={(e) => updateAlternateRoom(index, roomIndex, { oxygenOutlets: parseInt(e.target.value) || 0 })}
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                          title="Oxygen outlets"
+                        />
+                        <input
+                          type="number"
+                          value={room.airOutlets}
+                          onChange={(e) => updateAlternateRoom(index, roomIndex, { airOutlets: parseInt(e.target.value) || 0 })}
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                          title="Medical air outlets"
+                        />
+                        <input
+                          type="number"
+                          value={room.vacuumOutlets}
+                          onChange={(e) => updateAlternateRoom(index, roomIndex, { vacuumOutlets: parseInt(e.target.value) || 0 })}
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                          title="Vacuum outlets"
+                        />
+                        <button
+                          onClick={() => updateAlternate(index, { rooms: alternate.rooms.filter((_, i) => i !== roomIndex) })}
+                          className="text-red-600 hover:text-red-700 text-sm"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div>
+                    <div className="flex justify-between items-center mb-2">
+                      <h4 className="text-sm font-medium text-gray-700">Equipment</h4>
+                      <button
+                        onClick={() => updateAlternate(index, {
+                          equipment: [...alternate.equipment, { name: 'Medical Equipment', category: 'General', quantity: 1, unitCost: 5000, installationCost: 1000 }]
+                        })}
+                        className="text-blue-600 hover:text-blue-700 text-sm flex items-center space-x-1"
+                      >
+                        <Wrench className="h-4 w-4" />
+                        <span>Add Equipment</span>
+                      </button>
+                    </div>
+                    {alternate.equipment.map((item, itemIndex) => (
+                      <div key={itemIndex} className="grid md:grid-cols-5 gap-2 mb-2 items-center">
+                        <input
+                          type="text"
+                          value={item.name || ''}
+                          onChange={(e) => updateAlternateEquipment(index, itemIndex, { name: e.target.value })}
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                          placeholder="Equipment name"
+                        />
+                        <input
+                          type="number"
+                          value={item.quantity}
+                          onChange={(e) => updateAlternateEquipment(index, itemIndex, { quantity: parseInt(e.target.value) || 0 })}
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                          title="Quantity"
+                        />
+                        <input
+                          type="number"
+                          value={item.unitCost}
+                          onChange={(e) => updateAlternateEquipment(index, itemIndex, { unitCost: parseInt(e.target.value) || 0 })}
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                          title="Unit cost"
+                        />
+                        <input
+                          type="number"
+                          value={item.installationCost || 0}
+                          onChange={(e) => updateAlternateEquipment(index, itemIndex, { installationCost: parseInt(e.target.value) || 0 })}
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                          title="Installation cost"
+                        />
+                        <button
+                          onClick={() => updateAlternate(index, { equipment: alternate.equipment.filter((_, i) => i !== itemIndex) })}
+                          className="text-red-600 hover:text-red-700 text-sm"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
           </div>
         );
 
@@ -1056,20 +1412,65 @@ export default function EditEstimatePage() {
                   <span className="font-medium">${costs.medicalGas.toLocaleString()}</span>
                 </div>
 
-                <div className="flex justify-between items-center py-3 border-b border-gray-200">
-                  <span className="text-gray-700">Compliance & Testing (15%)</span>
-                  <span className="font-medium">${costs.compliance.toLocaleString()}</span>
-                </div>
+                {costs.regionalAdjustment && costs.regionalAdjustment.amount !== 0 && (
+                  <div className="flex justify-between items-center py-3 border-b border-gray-200">
+                    <div>
+                      <span className="text-gray-700">Regional Adjustment</span>
+                      <div className="text-xs text-gray-500">
+                        {costs.regionalAdjustment.label} — labor ×{costs.regionalAdjustment.laborFactor}, material ×{costs.regionalAdjustment.materialFactor}
+                      </div>
+                    </div>
+                    <span className="font-medium">${costs.regionalAdjustment.amount.toLocaleString()}</span>
+                  </div>
+                )}
 
-                <div className="flex justify-between items-center py-3 border-b border-gray-200">
-                  <span className="text-gray-700">Contingency (10%)</span>
-                  <span className="font-medium">${costs.contingency.toLocaleString()}</span>
-                </div>
+                {costs.escalation && costs.escalation.amount !== 0 && (
+                  <div className="flex justify-between items-center py-3 border-b border-gray-200">
+                    <div>
+                      <span className="text-gray-700">Escalation to Midpoint</span>
+                      <div className="text-xs text-gray-500">
+                        {(costs.escalation.annualRate * 100).toFixed(1)}% per year to {new Date(costs.escalation.midpointDate).toLocaleDateString()}
+                      </div>
+                    </div>
+                    <span className="font-medium">${Math.round(costs.escalation.amount).toLocaleString()}</span>
+                  </div>
+                )}
+
+                {(costs.markups ?? []).filter(markup => markup.amount !== 0).map(markup => (
+                  <div key={markup.key} className="flex justify-between items-center py-3 border-b border-gray-200">
+                    <div>
+                      <span className="text-gray-700">{markup.label}</span>
+                      <div className="text-xs text-gray-500">{describeMarkup(markup)}</div>
+                    </div>
+                    <span className="font-medium">${Math.round(markup.amount).toLocaleString()}</span>
+                  </div>
+                ))}
 
                 <div className="flex justify-between items-center py-4 bg-gray-50 rounded-lg px-4">
-                  <span className="text-lg font-bold text-gray-900">Total Project Cost</span>
+                  <span className="text-lg font-bold text-gray-900">
+                    {costs.alternates?.length ? 'Base Bid' : 'Total Project Cost'}
+                  </span>
                   <span className="text-2xl font-bold text-blue-600">${costs.total.toLocaleString()}</span>
                 </div>
+
+                {costs.alternates && costs.alternates.length > 0 && (
+                  <div className="pt-4">
+                    <h4 className="font-semibold text-gray-900 mb-2">Alternates</h4>
+                    {costs.alternates.map(alternate => (
+                      <div key={alternate.number} className="flex justify-between items-center py-3 border-b border-gray-200">
+                        <div>
+                          <span className="text-gray-700">{formatAlternate(alternate)}</span>
+                          <div className="text-xs text-gray-500">
+                            Direct ${Math.round(Math.abs(alternate.directCost)).toLocaleString()} + markups ${Math.round(Math.abs(alternate.markupShare)).toLocaleString()}
+                          </div>
+                        </div>
+                        <span className={`font-medium ${alternate.amount < 0 ? 'text-green-600' : 'text-gray-900'}`}>
+                          {alternate.amount < 0 ? '-' : '+'}${Math.round(Math.abs(alternate.amount)).toLocaleString()}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
 
@@ -25,6 +25,7 @@ import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
 import QRCode from 'qrcode';
 import EmailEstimate from '@/components/EmailEstimate';
+import { CostSummary, priceEstimate, toCostSummary } from '@/lib/pricing/engine';
 
 interface ProjectData {
   projectName: string;
@@ -45,6 +46,10 @@ interface RoomData {
   vacuumOutlets: number;
   co2Outlets: number;
   n2oOutlets: number;
+  wagdOutlets: number;
+  nitrogenOutlets: number;
+  instrumentAirOutlets: number;
+  argonOutlets: number;
 }
 
 interface EquipmentData {
@@ -55,15 +60,6 @@ interface EquipmentData {
   installationCost: number;
 }
 
-interface CostBreakdown {
-  equipment: number;
-  installation: number;
-  medicalGas: number;
-  compliance: number;
-  contingency: number;
-  total: number;
-}
-
 export default function NewEstimatePage() {
   const { user, saveEstimate } = useAuth();
   const router = useRouter();
@@ -85,7 +81,7 @@ export default function NewEstimatePage() {
 
   const [rooms, setRooms] = useState<RoomData[]>([]);
   const [equipment, setEquipment] = useState<EquipmentData[]>([]);
-  const [costs, setCosts] = useState<CostBreakdown>({
+  const [costs, setCosts] = useState<CostSummary>({
     equipment: 0,
     installation: 0,
     medicalGas: 0,
@@ -96,30 +92,7 @@ export default function NewEstimatePage() {
 
   // Calculate costs whenever data changes
   const calculateCosts = useCallback(() => {
-    const equipmentCost = equipment.reduce((sum, item) => sum + (item.quantity * item.unitCost), 0);
-    const installationCost = equipment.reduce((sum, item) => sum + item.installationCost, 0);
-
-    // Medical gas costs based on outlets
-    const totalOutlets = rooms.reduce((sum, room) =>
-      sum + room.oxygenOutlets + room.airOutlets + room.vacuumOutlets + room.co2Outlets + room.n2oOutlets, 0
-    );
-    const medicalGasCost = totalOutlets * 1200; // $1200 per outlet average
-
-    // Compliance and contingency
-    const subtotal = equipmentCost + installationCost + medicalGasCost;
-    const complianceCost = subtotal * 0.15; // 15% for compliance
-    const contingencyCost = subtotal * 0.10; // 10% contingency
-
-    const total = subtotal + complianceCost + contingencyCost;
-
-    setCosts({
-      equipment: equipmentCost,
-      installation: installationCost,
-      medicalGas: medicalGasCost,
-      compliance: complianceCost,
-      contingency: contingencyCost,
-      total
-    });
+    setCosts(toCostSummary(priceEstimate(rooms, equipment)));
   }, [equipment, rooms]);
 
   useEffect(() => {
@@ -135,7 +108,11 @@ export default function NewEstimatePage() {
       airOutlets: 2,
       vacuumOutlets: 4,
       co2Outlets: 0,
-      n2oOutlets: 2
+      n2oOutlets: 2,
+      wagdOutlets: 2,
+      nitrogenOutlets: 0,
+      instrumentAirOutlets: 0,
+      argonOutlets: 0
     }]);
   };
 
@@ -486,6 +463,64 @@ export default function NewEstimatePage() {
                       />
                     </div>
                   </div>
+
+                  <div className="mt-4 grid grid-cols-4 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">WAGD</label>
+                      <input
+                        type="number"
+                        value={room.wagdOutlets}
+                        onChange={(e) => {
+                          const newRooms = [...rooms];
+                          newRooms[index].wagdOutlets = parseInt(e.target.value) || 0;
+                          setRooms(newRooms);
+                        }}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Nitrogen</label>
+                      <input
+                        type="number"
+                        value={room.nitrogenOutlets}
+                        onChange={(e) => {
+                          const newRooms = [...rooms];
+                          newRooms[index].nitrogenOutlets = parseInt(e.target.value) || 0;
+                          setRooms(newRooms);
+                        }}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Instrument Air</label>
+                      <input
+                        type="number"
+                        value={room.instrumentAirOutlets}
+                        onChange={(e) => {
+                          const newRooms = [...rooms];
+                          newRooms[index].instrumentAirOutlets = parseInt(e.target.value) || 0;
+                          setRooms(newRooms);
+                        }}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Argon</label>
+                      <input
+                        type="number"
+                        value={room.argonOutlets}
+                        onChange={(e) => {
+                          const newRooms = [...rooms];
+                          newRooms[index].argonOutlets = parseInt(e.target.value) || 0;
+                          setRooms(newRooms);
+                        }}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+                      />
+                    </div>
+                  </div>
                 </div>
               ))}
             </div>
@@ -3,8 +3,33 @@
 import { useState, useEffect, Suspense } from 'react';
 import { useSearchParams } from 'next/navigation';
 import Link from 'next/link';
-import { Building, Download, ArrowLeft, Calendar, MapPin, DollarSign, Users, FileText } from 'lucide-react';
+import { Building, Download, ArrowLeft, Calendar, MapPin, DollarSign, Users, FileText, ChevronDown, ChevronRight } from 'lucide-react';
 import jsPDF from 'jspdf';
+import { AppliedRegionalAdjustment } from '@/lib/pricing/regional-index';
+import { AppliedEscalation } from '@/lib/pricing/escalation';
+import { AppliedMarkup, describeMarkup } from '@/lib/pricing/markups';
+import { PricingRoom, RedundancyLevel, RoomCostBreakdown, breakDownRoomCost, priceCostCodeReport } from '@/lib/pricing/engine';
+import { DEFAULT_RATES, RateTableRates } from '@/lib/pricing/rate-tables';
+
+const GAS_LABELS: Record<string, string> = {
+  oxygen: 'Oxygen outlets',
+  air: 'Medical air outlets',
+  vacuum: 'Vacuum inlets',
+  co2: 'CO2 outlets',
+  n2o: 'N2O outlets',
+  wagd: 'WAGD inlets',
+  nitrogen: 'Nitrogen outlets',
+  instrumentAir: 'Instrument air outlets',
+  argon: 'Argon outlets'
+};
+
+// Specialty gases added after the original five; older estimates omit them
+const SPECIALTY_OUTLETS = [
+  { key: 'wagdOutlets', label: 'WAGD' },
+  { key: 'nitrogenOutlets', label: 'Nitrogen' },
+  { key: 'instrumentAirOutlets', label: 'Inst. Air' },
+  { key: 'argonOutlets', label: 'Argon' }
+] as const;
 
 interface EstimateData {
   id: string;
@@ -15,13 +40,21 @@ interface EstimateData {
   projectData: any;
   rooms: any[];
   equipment: any[];
+  rates?: RateTableRates; // rate table the estimate was priced with; older estimates omit it
+  medicalGasRequirements?: { redundancyLevel?: RedundancyLevel };
   costs: {
     equipment: number;
     installation: number;
     medicalGas: number;
+    regionalAdjustment?: AppliedRegionalAdjustment;
+    escalation?: AppliedEscalation | null;
     compliance: number;
     contingency: number;
+    markups?: AppliedMarkup[]; // full stack; older estimates only carry compliance and contingency
     total: number;
+    laborHours?: number;
+    laborCost?: number;
+    materialCost?: number;
   };
   totalCost: number;
   createdAt: string;
@@ -33,6 +66,39 @@ function EstimateViewerContent() {
   const [estimate, setEstimate] = useState<EstimateData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [expandedRooms, setExpandedRooms] = useState<Set<number>>(new Set());
+
+  const toggleRoom = (index: number) => {
+    setExpandedRooms(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  // Estimates saved before line items were persisted are broken down on the fly,
+  // at the rates and redundancy the estimate total was priced with
+  const getRoomBreakdown = (room: PricingRoom & { costBreakdown?: RoomCostBreakdown | null }): RoomCostBreakdown =>
+    room.costBreakdown || breakDownRoomCost(
+      room,
+      estimate?.rates ?? DEFAULT_RATES,
+      estimate?.medicalGasRequirements?.redundancyLevel ?? 'Single'
+    );
+
+  // Every charged entry of the markup stack, or the two fixed lines older estimates carry
+  const getMarkupLines = (costs: EstimateData['costs']): Array<{ key: string; label: string; detail: string; amount: number }> =>
+    costs.markups
+      ? costs.markups
+        .filter(markup => markup.amount !== 0)
+        .map(markup => ({ key: markup.key, label: markup.label, detail: describeMarkup(markup), amount: markup.amount }))
+      : [
+        { key: 'compliance', label: 'Compliance & Testing', detail: 'NFPA 99 and regulatory compliance', amount: costs.compliance },
+        { key: 'contingency', label: 'Contingency', detail: 'Project contingency', amount: costs.contingency }
+      ];
 
   useEffect(() => {
     const estimateId = searchParams.get('id');
@@ -86,14 +152,35 @@ function EstimateViewerContent() {
       yPos += 8;
       pdf.text(`Medical Gas Systems: $${estimate.costs.medicalGas.toLocaleString()}`, 20, yPos);
       yPos += 8;
-      pdf.text(`Compliance & Testing: $${estimate.costs.compliance.toLocaleString()}`, 20, yPos);
-      yPos += 8;
-      pdf.text(`Contingency: $${estimate.costs.contingency.toLocaleString()}`, 20, yPos);
-      yPos += 15;
+      if (estimate.costs.regionalAdjustment && estimate.costs.regionalAdjustment.amount !== 0) {
+        const region = estimate.costs.regionalAdjustment;
+        pdf.text(`Regional Adjustment (${region.label}: labor x${region.laborFactor}, material x${region.materialFactor}): $${region.amount.toLocaleString()}`, 20, yPos);
+        yPos += 8;
+      }
+      if (estimate.costs.escalation && estimate.costs.escalation.amount !== 0) {
+        const escalation = estimate.costs.escalation;
+        pdf.text(`Escalation to Midpoint (${(escalation.annualRate * 100).toFixed(1)}%/yr, ${escalation.monthsToMidpoint.toFixed(1)} months): $${escalation.amount.toLocaleString()}`, 20, yPos);
+        yPos += 8;
+      }
+      getMarkupLines(estimate.costs).forEach(markup => {
+        pdf.text(`${markup.label} (${markup.detail}): $${Math.round(markup.amount).toLocaleString()}`, 20, yPos);
+        yPos += 8;
+      });
+      yPos += 7;
 
       pdf.setFontSize(14);
       pdf.text(`Total Project Cost: $${estimate.costs.total.toLocaleString()}`, 20, yPos);
 
+      // Labor vs. Material
+      if (estimate.costs.laborCost !== undefined && estimate.costs.materialCost !== undefined) {
+        yPos += 15;
+        pdf.setFontSize(10);
+        pdf.text(`Labor: ${Math.round(estimate.costs.laborHours || 0).toLocaleString()} hrs, $${Math.round(estimate.costs.laborCost).toLocaleString()}`, 20, yPos);
+        yPos += 8;
+        pdf.text(`Material: $${Math.round(estimate.costs.materialCost).toLocaleString()}`, 20, yPos);
+        pdf.setFontSize(14);
+      }
+
       // Room Details
       if (estimate.rooms && estimate.rooms.length > 0) {
         yPos += 20;
@@ -108,12 +195,45 @@ function EstimateViewerContent() {
           }
           pdf.text(`${room.name} (${room.type}): ${room.area} sq ft`, 20, yPos);
           yPos += 6;
-          const outlets = `O2: ${room.oxygenOutlets}, Air: ${room.airOutlets}, Vacuum: ${room.vacuumOutlets}, CO2: ${room.co2Outlets}, N2O: ${room.n2oOutlets}`;
+          const specialty = SPECIALTY_OUTLETS.filter(({ key }) => room[key] > 0)
+            .map(({ key, label }) => `, ${label}: ${room[key]}`).join('');
+          const outlets = `O2: ${room.oxygenOutlets}, Air: ${room.airOutlets}, Vacuum: ${room.vacuumOutlets}, CO2: ${room.co2Outlets}, N2O: ${room.n2oOutlets}${specialty}`;
           pdf.text(`  Medical Gas Outlets - ${outlets}`, 25, yPos);
           yPos += 8;
         });
       }
 
+      // Cost by CSI MasterFormat division and section
+      const costCodeReport = priceCostCodeReport(estimate.rooms || [], estimate.equipment || [], {
+        rates: estimate.rates,
+        redundancyLevel: estimate.medicalGasRequirements?.redundancyLevel
+      });
+      if (costCodeReport.directCost.divisions.length > 0) {
+        if (yPos > 220) {
+          pdf.addPage();
+          yPos = 20;
+        }
+        yPos += 15;
+        pdf.setFontSize(14);
+        pdf.text('Cost by CSI Division:', 20, yPos);
+        yPos += 10;
+
+        pdf.setFontSize(10);
+        costCodeReport.directCost.divisions.forEach(division => {
+          if (yPos > 260) {
+            pdf.addPage();
+            yPos = 30;
+          }
+          pdf.text(`Division ${division.division} - ${division.title}: $${Math.round(division.total).toLocaleString()}`, 20, yPos);
+          yPos += 6;
+          division.sections.forEach(section => {
+            pdf.text(`  ${section.code} ${section.title}: $${Math.round(section.total).toLocaleString()}`, 25, yPos);
+            yPos += 6;
+          });
+        });
+        pdf.text(`Adjustments & markups: $${Math.round(estimate.costs.total - costCodeReport.directCost.total).toLocaleString()}`, 20, yPos);
+      }
+
       // Footer
       pdf.setFontSize(8);
       pdf.text('Generated by DS Arch Medical Cost Estimator - dsarch.org', 20, 280);
@@ -230,7 +350,8 @@ function EstimateViewerContent() {
             <div className="text-center">
               <div className="text-2xl font-bold text-gray-900">
                 {estimate.rooms?.reduce((sum, room) =>
-                  sum + room.oxygenOutlets + room.airOutlets + room.vacuumOutlets + room.co2Outlets + room.n2oOutlets, 0
+                  sum + room.oxygenOutlets + room.airOutlets + room.vacuumOutlets + room.co2Outlets + room.n2oOutlets +
+                  SPECIALTY_OUTLETS.reduce((specialty, { key }) => specialty + (room[key] || 0), 0), 0
                 ) || 0}
               </div>
               <div className="text-sm text-gray-600">Gas Outlets</div>
@@ -273,21 +394,39 @@ function EstimateViewerContent() {
               <div className="text-xl font-semibold text-gray-900">${estimate.costs.medicalGas.toLocaleString()}</div>
             </div>
 
-            <div className="flex justify-between items-center py-4 border-b border-gray-200">
-              <div>
-                <div className="font-medium text-gray-900">Compliance & Testing</div>
-                <div className="text-sm text-gray-600">NFPA 99 and regulatory compliance</div>
+            {estimate.costs.regionalAdjustment && estimate.costs.regionalAdjustment.amount !== 0 && (
+              <div className="flex justify-between items-center py-4 border-b border-gray-200">
+                <div>
+                  <div className="font-medium text-gray-900">Regional Adjustment</div>
+                  <div className="text-sm text-gray-600">
+                    {estimate.costs.regionalAdjustment.label} — labor ×{estimate.costs.regionalAdjustment.laborFactor}, material ×{estimate.costs.regionalAdjustment.materialFactor}
+                  </div>
+                </div>
+                <div className="text-xl font-semibold text-gray-900">${estimate.costs.regionalAdjustment.amount.toLocaleString()}</div>
               </div>
-              <div className="text-xl font-semibold text-gray-900">${estimate.costs.compliance.toLocaleString()}</div>
-            </div>
+            )}
+
+            {estimate.costs.escalation && estimate.costs.escalation.amount !== 0 && (
+              <div className="flex justify-between items-center py-4 border-b border-gray-200">
+                <div>
+                  <div className="font-medium text-gray-900">Escalation to Midpoint</div>
+                  <div className="text-sm text-gray-600">
+                    {(estimate.costs.escalation.annualRate * 100).toFixed(1)}% per year to {new Date(estimate.costs.escalation.midpointDate).toLocaleDateString()}
+                  </div>
+                </div>
+                <div className="text-xl font-semibold text-gray-900">${Math.round(estimate.costs.escalation.amount).toLocaleString()}</div>
+              </div>
+            )}
 
-            <div className="flex justify-between items-center py-4 border-b border-gray-200">
-              <div>
-                <div className="font-medium text-gray-900">Contingency</div>
-                <div className="text-sm text-gray-600">10% project contingency</div>
+            {getMarkupLines(estimate.costs).map(markup => (
+              <div key={markup.key} className="flex justify-between items-center py-4 border-b border-gray-200">
+                <div>
+                  <div className="font-medium text-gray-900">{markup.label}</div>
+                  <div className="text-sm text-gray-600">{markup.detail}</div>
+                </div>
+                <div className="text-xl font-semibold text-gray-900">${Math.round(markup.amount).toLocaleString()}</div>
               </div>
-              <div className="text-xl font-semibold text-gray-900">${estimate.costs.contingency.toLocaleString()}</div>
-            </div>
+            ))}
 
             <div className="flex justify-between items-center py-6 bg-blue-50 rounded-lg px-6">
               <div>
@@ -299,6 +438,28 @@ function EstimateViewerContent() {
           </div>
         </div>
 
+        {/* Labor vs. Material */}
+        {estimate.costs.laborCost !== undefined && estimate.costs.materialCost !== undefined && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8 mb-8">
+            <h2 className="text-2xl font-bold text-gray-900 mb-6">Labor &amp; Material</h2>
+
+            <div className="grid md:grid-cols-3 gap-6">
+              <div className="text-center">
+                <div className="text-2xl font-bold text-gray-900">{Math.round(estimate.costs.laborHours || 0).toLocaleString()}</div>
+                <div className="text-sm text-gray-600">Labor Hours</div>
+              </div>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-gray-900">${Math.round(estimate.costs.laborCost).toLocaleString()}</div>
+                <div className="text-sm text-gray-600">Labor Cost</div>
+              </div>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-gray-900">${Math.round(estimate.costs.materialCost).toLocaleString()}</div>
+                <div className="text-sm text-gray-600">Material Cost</div>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Room Configuration */}
         {estimate.rooms && estimate.rooms.length > 0 && (
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8 mb-8">
@@ -336,6 +497,81 @@ function EstimateViewerContent() {
                       <div className="text-xs text-gray-600">N2O</div>
                     </div>
                   </div>
+
+                  {SPECIALTY_OUTLETS.some(({ key }) => room[key] > 0) && (
+                    <div className="mt-3 grid grid-cols-4 gap-4 text-center">
+                      {SPECIALTY_OUTLETS.map(({ key, label }) => (
+                        <div key={key}>
+                          <div className="text-sm font-medium text-gray-900">{room[key] || 0}</div>
+                          <div className="text-xs text-gray-600">{label}</div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <button
+                    onClick={() => toggleRoom(index)}
+                    className="mt-4 flex items-center text-sm font-medium text-blue-600 hover:text-blue-700"
+                  >
+                    {expandedRooms.has(index) ? (
+                      <ChevronDown className="h-4 w-4 mr-1" />
+                    ) : (
+                      <ChevronRight className="h-4 w-4 mr-1" />
+                    )}
+                    Cost breakdown
+                  </button>
+
+                  {expandedRooms.has(index) && (() => {
+                    const breakdown = getRoomBreakdown(room);
+                    return (
+                      <table className="mt-3 w-full text-sm">
+                        <thead>
+                          <tr className="border-b border-gray-200 text-left text-gray-600">
+                            <th className="py-2 font-medium">Item</th>
+                            <th className="py-2 font-medium text-right">Qty</th>
+                            <th className="py-2 font-medium text-right">Rate</th>
+                            <th className="py-2 font-medium text-right">Amount</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {breakdown.outlets.filter(line => line.count > 0).map(line => (
+                            <tr key={line.gas} className="border-b border-gray-100">
+                              <td className="py-2 text-gray-900">{GAS_LABELS[line.gas]}</td>
+                              <td className="py-2 text-right">{line.count}</td>
+                              <td className="py-2 text-right">${line.rate.toLocaleString()}</td>
+                              <td className="py-2 text-right">${line.amount.toLocaleString()}</td>
+                            </tr>
+                          ))}
+                          <tr className="border-b border-gray-100">
+                            <td className="py-2 text-gray-900">Piping</td>
+                            <td className="py-2 text-right">{breakdown.piping.area.toLocaleString()} sq ft</td>
+                            <td className="py-2 text-right">${breakdown.piping.ratePerSqFt.toLocaleString()}/sq ft</td>
+                            <td className="py-2 text-right">${breakdown.piping.amount.toLocaleString()}</td>
+                          </tr>
+                          <tr className="border-b border-gray-100">
+                            <td className="py-2 text-gray-900" colSpan={3}>Base cost</td>
+                            <td className="py-2 text-right">${breakdown.baseCost.toLocaleString()}</td>
+                          </tr>
+                          <tr className="border-b border-gray-100">
+                            <td className="py-2 text-gray-900" colSpan={2}>Complexity multiplier</td>
+                            <td className="py-2 text-right">×{breakdown.complexityMultiplier}</td>
+                            <td className="py-2"></td>
+                          </tr>
+                          {breakdown.redundancyMultiplier !== 1 && (
+                            <tr className="border-b border-gray-100">
+                              <td className="py-2 text-gray-900" colSpan={2}>Redundancy multiplier</td>
+                              <td className="py-2 text-right">×{breakdown.redundancyMultiplier}</td>
+                              <td className="py-2"></td>
+                            </tr>
+                          )}
+                          <tr className="font-semibold">
+                            <td className="py-2 text-gray-900" colSpan={3}>Room subtotal</td>
+                            <td className="py-2 text-right">${Math.round(breakdown.subtotal).toLocaleString()}</td>
+                          </tr>
+                        </tbody>
+                      </table>
+                    );
+                  })()}
                 </div>
               ))}
             </div>
@@ -4,6 +4,7 @@ import { useState, useCallback, useEffect } from 'react';
 import { Calculator, Building, Settings, DollarSign, Clock, Award, Wrench, User as UserIcon, LogIn, UserPlus, FileText, Plus, X, Download, Share, Save, Eye, ChevronDown, ChevronRight, Building2, Zap, Shield } from "lucide-react";
 import Link from "next/link";
 import { useDatabase } from '@/hooks/useDatabase';
+import { priceEstimate } from '@/lib/pricing/engine';
 
 // Embedded estimate calculator component
 function EmbeddedEstimateCalculator({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) {
@@ -73,17 +74,7 @@ function EmbeddedEstimateCalculator({ isOpen, onClose }: { isOpen: boolean; onCl
   };
 
   const calculateCosts = useCallback(() => {
-    const roomCosts = estimate.rooms.reduce((sum, room) => {
-      const outletCosts = (room.oxygenOutlets * 1500) + (room.airOutlets * 1200) + (room.vacuumOutlets * 1400);
-      const pipingCost = room.area * 25;
-      return sum + outletCosts + pipingCost;
-    }, 0);
-
-    const equipmentCosts = estimate.equipment.reduce((sum, item) => sum + (item.quantity * item.unitCost), 0);
-    const subtotal = roomCosts + equipmentCosts;
-    const total = subtotal * 1.3; // Add 30% for installation, compliance, contingency
-
-    return { roomCosts, equipmentCosts, subtotal, total };
+    return priceEstimate(estimate.rooms, estimate.equipment);
   }, [estimate]);
 
   const costs = calculateCosts();
@@ -107,7 +98,7 @@ ${estimate.equipment.map(item => `- ${item.name} x${item.quantity}: ${item.unitC
 COST BREAKDOWN:
 Room & Medical Gas Systems: ${costs.roomCosts.toLocaleString()}
 Equipment: ${costs.equipmentCosts.toLocaleString()}
-Installation & Compliance (30%): ${(costs.total - costs.subtotal).toLocaleString()}
+Compliance & Contingency: ${(costs.total - costs.subtotal).toLocaleString()}
 
 TOTAL ESTIMATED COST: ${costs.total.toLocaleString()}
 
@@ -637,7 +628,7 @@ Professional facility estimation tools for dsarch.org
                     <span>${costs.equipmentCosts.toLocaleString()}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span>Installation & Compliance (30%):</span>
+                    <span>Compliance & Contingency:</span>
                     <span>${(costs.total - costs.subtotal).toLocaleString()}</span>
                   </div>
                   <div className="border-t border-gray-200 pt-2 flex justify-between font-bold text-lg">
@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import { templateService, FacilityTemplate } from '@/services/templateService';
+import { DEFAULT_RATES, RateTableRates, RateTableRatesSchema } from '@/lib/pricing/rate-tables';
 import {
   Building2,
   Search,
@@ -84,6 +85,21 @@ export default function TemplatesPage() {
     setFilteredTemplates(filtered);
   };
 
+  // Price against the rate table in effect today, as the estimate service does.
+  // Without one (or without a server session) the built-in defaults apply.
+  const resolveRates = async (): Promise<{ rateTableId: string | null; rates: RateTableRates }> => {
+    try {
+      const response = await fetch(`/api/rate-tables?asOf=${encodeURIComponent(new Date().toISOString())}`);
+      if (response.ok) {
+        const { data } = await response.json();
+        return { rateTableId: data.id, rates: RateTableRatesSchema.parse(data.rates) };
+      }
+    } catch (error) {
+      console.error('Error loading the effective rate table:', error);
+    }
+    return { rateTableId: null, rates: DEFAULT_RATES };
+  };
+
   const handleUseTemplate = async (templateId: string) => {
     if (!user) {
       router.push('/auth/login');
@@ -93,7 +109,7 @@ export default function TemplatesPage() {
     setIsLoading(true);
 
     try {
-      const estimateData = templateService.createEstimateFromTemplate(templateId);
+      const estimateData = templateService.createEstimateFromTemplate(templateId, undefined, await resolveRates());
 
       // Save the estimate
       const estimates = JSON.parse(localStorage.getItem('ds-arch-estimates') || '{}');
@@ -338,7 +354,8 @@ export default function TemplatesPage() {
                       </div>
                       <div className="text-right">
                         <div className="text-sm font-medium text-gray-900">Total Outlets: {
-                          room.oxygenOutlets + room.airOutlets + room.vacuumOutlets + room.co2Outlets + room.n2oOutlets
+                          room.oxygenOutlets + room.airOutlets + room.vacuumOutlets + room.co2Outlets + room.n2oOutlets +
+                          (room.wagdOutlets || 0) + (room.nitrogenOutlets || 0) + (room.instrumentAirOutlets || 0) + (room.argonOutlets || 0)
                         }</div>
                       </div>
                     </div>
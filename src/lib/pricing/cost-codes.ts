@@ -0,0 +1,166 @@
+// CSI MasterFormat cost codes (with the matching UniFormat element) used to
+// code rooms, equipment and generated gas-system lines, and to roll an
+// estimate up by division and section for owners' cost reports.
+
+// ===== TYPES =====
+
+export interface CostCode {
+  code: string // MasterFormat section, e.g. '22 63 00'
+  title: string
+  division: string // first two digits, e.g. '22'
+  uniformat?: string // UniFormat II element, e.g. 'D2090'
+}
+
+export interface CostCodedLine {
+  costCode: string
+  description: string
+  amount: number
+}
+
+export interface CostCodeSectionTotal {
+  code: string
+  title: string
+  uniformat?: string
+  lineCount: number
+  total: number
+}
+
+export interface CostCodeDivisionTotal {
+  division: string
+  title: string
+  total: number
+  sections: CostCodeSectionTotal[]
+}
+
+export interface CostCodeRollup {
+  divisions: CostCodeDivisionTotal[]
+  total: number
+}
+
+// ===== CATALOG =====
+
+export const COST_CODE_DIVISIONS: Record<string, string> = {
+  '01': 'General Requirements',
+  '11': 'Equipment',
+  '22': 'Plumbing',
+  '23': 'Heating, Ventilating, and Air Conditioning (HVAC)',
+  '26': 'Electrical'
+}
+
+export const COST_CODE_CATALOG: CostCode[] = [
+  { code: '01 45 00', title: 'Quality Control', division: '01', uniformat: 'Z1020' },
+  { code: '22 60 00', title: 'Gas and Vacuum Systems for Laboratory and Healthcare Facilities', division: '22', uniformat: 'D2090' },
+  { code: '22 61 13', title: 'Compressed-Air Piping for Laboratory and Healthcare Facilities', division: '22', uniformat: 'D2090' },
+  { code: '22 61 19', title: 'Compressed-Air Equipment for Laboratory and Healthcare Facilities', division: '22', uniformat: 'D2090' },
+  { code: '22 62 13', title: 'Vacuum Piping for Laboratory and Healthcare Facilities', division: '22', uniformat: 'D2090' },
+  { code: '22 62 19', title: 'Vacuum Equipment for Laboratory and Healthcare Facilities', division: '22', uniformat: 'D2090' },
+  { code: '22 63 00', title: 'Gas Systems for Healthcare Facilities', division: '22', uniformat: 'D2090' },
+  { code: '22 63 13', title: 'Gas Piping for Laboratory and Healthcare Facilities', division: '22', uniformat: 'D2090' },
+  { code: '22 63 19', title: 'Gas Storage Tanks for Laboratory and Healthcare Facilities', division: '22', uniformat: 'D2090' },
+  { code: '11 70 00', title: 'Healthcare Equipment', division: '11', uniformat: 'E1030' },
+  { code: '11 72 00', title: 'Examination and Treatment Equipment', division: '11', uniformat: 'E1030' },
+  { code: '11 73 00', title: 'Patient Care Equipment', division: '11', uniformat: 'E1030' },
+  { code: '11 76 00', title: 'Operating Room Equipment', division: '11', uniformat: 'E1030' },
+  { code: '23 00 00', title: 'Heating, Ventilating, and Air Conditioning (HVAC)', division: '23', uniformat: 'D3000' },
+  { code: '26 00 00', title: 'Electrical', division: '26', uniformat: 'D5000' }
+]
+
+// ===== DEFAULTS =====
+
+export const DEFAULT_ROOM_COST_CODE = '22 63 00'
+export const DEFAULT_EQUIPMENT_COST_CODE = '11 70 00'
+
+// Central supply and distribution lines generated by the engineering engine
+export const GAS_SYSTEM_COST_CODES: Record<string, string> = {
+  oxygen: '22 63 00',
+  n2o: '22 63 00',
+  co2: '22 63 00',
+  nitrogen: '22 63 00',
+  argon: '22 63 00',
+  air: '22 61 19',
+  instrument_air: '22 61 19',
+  vacuum: '22 62 19',
+  wagd: '22 62 19'
+}
+
+// Distribution piping takeoff lines
+export const GAS_PIPING_COST_CODES: Record<string, string> = {
+  oxygen: '22 63 13',
+  n2o: '22 63 13',
+  co2: '22 63 13',
+  nitrogen: '22 63 13',
+  argon: '22 63 13',
+  air: '22 61 13',
+  instrument_air: '22 61 13',
+  vacuum: '22 62 13',
+  wagd: '22 62 13'
+}
+
+// Free-text equipment categories used by the forms and templates
+const EQUIPMENT_CATEGORY_COST_CODES: Record<string, string> = {
+  surgical: '11 76 00',
+  monitoring: '11 73 00',
+  'life support': '11 73 00',
+  diagnostic: '11 72 00',
+  anesthesia: '11 76 00',
+  'medical gas': '22 63 00',
+  hvac: '23 00 00',
+  electrical: '26 00 00'
+}
+
+// ===== HELPERS =====
+
+const CATALOG_BY_CODE = new Map(COST_CODE_CATALOG.map(entry => [entry.code, entry]))
+
+export function getCostCode(code: string): CostCode | undefined {
+  return CATALOG_BY_CODE.get(code)
+}
+
+export function isCostCode(code: string): boolean {
+  return CATALOG_BY_CODE.has(code)
+}
+
+export function resolveEquipmentCostCode(category: string | null | undefined, costCode?: string | null): string {
+  if (costCode) return costCode
+  return EQUIPMENT_CATEGORY_COST_CODES[(category || '').trim().toLowerCase()] ?? DEFAULT_EQUIPMENT_COST_CODE
+}
+
+// Totals by division, then by section, in MasterFormat order
+export function rollUpByCostCode(lines: CostCodedLine[]): CostCodeRollup {
+  const sections = new Map<string, CostCodeSectionTotal>()
+
+  lines.forEach(line => {
+    const entry = getCostCode(line.costCode)
+    const section = sections.get(line.costCode) ?? {
+      code: line.costCode,
+      title: entry?.title ?? 'Uncoded',
+      uniformat: entry?.uniformat,
+      lineCount: 0,
+      total: 0
+    }
+    section.lineCount += 1
+    section.total += line.amount
+    sections.set(line.costCode, section)
+  })
+
+  const divisions = new Map<string, CostCodeDivisionTotal>()
+  Array.from(sections.values())
+    .sort((a, b) => a.code.localeCompare(b.code))
+    .forEach(section => {
+      const divisionCode = section.code.substring(0, 2)
+      const division = divisions.get(divisionCode) ?? {
+        division: divisionCode,
+        title: COST_CODE_DIVISIONS[divisionCode] ?? 'Other',
+        total: 0,
+        sections: []
+      }
+      division.sections.push(section)
+      division.total += section.total
+      divisions.set(divisionCode, division)
+    })
+
+  return {
+    divisions: Array.from(divisions.values()),
+    total: lines.reduce((sum, line) => sum + line.amount, 0)
+  }
+}
@@ -0,0 +1,372 @@
+import { DEFAULT_RATES, OutletRates, RateTableRates, getComplexityMultiplier } from './rate-tables'
+import { RoomType, normalizeRoomType } from './room-types'
+import { AppliedRegionalAdjustment, NATIONAL_AVERAGE, RegionalCostFactor, applyRegionalFactor } from './regional-index'
+import { EquipmentQuantities, PricedSplit, outletCounts, splitEquipmentCost, splitRoomCost, sumSplits } from './labor-material'
+import { AppliedEscalation, EscalationInput, calculateEscalation } from './escalation'
+import { AppliedMarkup, DEFAULT_MARKUP_STACK, MarkupEntry, applyMarkupStack, getMarkupAmount } from './markups'
+import { CostCodeRollup, CostCodedLine, DEFAULT_ROOM_COST_CODE, resolveEquipmentCostCode, rollUpByCostCode } from './cost-codes'
+
+// The one pricing engine. The estimate API, the template service and the
+// estimate pages all price rooms and equipment through priceEstimate so the
+// same inputs give the same totals on every screen.
+
+// ===== TYPES =====
+
+export interface PricingRoom {
+  name?: string
+  type: string
+  costCode?: string | null
+  area: number
+  oxygenOutlets: number
+  airOutlets: number
+  vacuumOutlets: number
+  co2Outlets?: number
+  n2oOutlets?: number
+  wagdOutlets?: number
+  nitrogenOutlets?: number
+  instrumentAirOutlets?: number
+  argonOutlets?: number
+}
+
+export interface PricingEquipment {
+  name?: string
+  category?: string
+  costCode?: string | null
+  quantity: number
+  unitCost: number
+  installationCost?: number
+}
+
+export type RedundancyLevel = 'Single' | 'Dual' | 'Triple'
+
+// Bid alternate: rooms and equipment added to, or deleted from, the base bid
+export interface PricingAlternate {
+  id?: string
+  name: string
+  type: 'ADD' | 'DEDUCT'
+  rooms: PricingRoom[]
+  equipment: PricingEquipment[]
+}
+
+export interface PricingOptions {
+  rates?: RateTableRates
+  region?: Pick<RegionalCostFactor, 'id' | 'label' | 'laborFactor' | 'materialFactor'>
+  escalation?: EscalationInput | null
+  markupStack?: MarkupEntry[]
+  redundancyLevel?: RedundancyLevel
+  alternates?: PricingAlternate[]
+}
+
+export interface AlternateResult {
+  id: string | null
+  number: number // 'Add Alt 1', 'Deduct Alt 2', ...
+  name: string
+  type: 'ADD' | 'DEDUCT'
+  directCost: number // signed room and equipment cost
+  markupShare: number // signed regional, escalation and markup share
+  amount: number // signed change to the base bid
+}
+
+export interface PricingResult {
+  roomCosts: number // medical gas outlets and piping, including redundancy
+  equipmentCosts: number // equipment units plus installation
+  equipmentMaterialCost: number
+  installationCost: number
+  laborHours: number
+  laborCost: number
+  materialCost: number
+  regionalAdjustment: AppliedRegionalAdjustment
+  escalation: AppliedEscalation | null
+  escalationCost: number
+  subtotal: number
+  markups: AppliedMarkup[]
+  markupTotal: number
+  complianceCost: number
+  contingencyCost: number
+  total: number // base bid
+  alternates: AlternateResult[]
+}
+
+// Persisted per room so reviewers can audit the math behind estimatedCost
+export interface RoomCostBreakdown {
+  roomType: RoomType | null
+  outlets: Array<{
+    gas: keyof OutletRates
+    count: number
+    rate: number
+    amount: number
+  }>
+  piping: {
+    area: number
+    ratePerSqFt: number
+    amount: number
+  }
+  baseCost: number // outlets + piping
+  complexityMultiplier: number
+  redundancyMultiplier: number
+  subtotal: number
+}
+
+// Direct cost by CSI division and section, then the below-the-line items
+export interface CostCodeReport {
+  directCost: CostCodeRollup
+  regionalAdjustment: number
+  escalationCost: number
+  markups: Array<{ key: string; label: string; amount: number }>
+  total: number
+}
+
+// Shape the estimate pages and localStorage estimates use
+export interface CostSummary {
+  equipment: number
+  installation: number
+  medicalGas: number
+  compliance: number
+  contingency: number
+  total: number
+  laborHours?: number
+  laborCost?: number
+  materialCost?: number
+  regionalAdjustment?: AppliedRegionalAdjustment
+  escalation?: AppliedEscalation | null
+  markups?: AppliedMarkup[]
+  alternates?: AlternateResult[]
+}
+
+// ===== DEFAULTS =====
+
+// Central supply and piping redundancy applied to the medical gas systems
+export const REDUNDANCY_MULTIPLIERS: Record<RedundancyLevel, number> = {
+  Single: 1.0,
+  Dual: 1.2,
+  Triple: 1.5
+}
+
+// ===== HELPERS =====
+
+export function scaleSplit(split: PricedSplit, factor: number): PricedSplit {
+  return {
+    laborHours: split.laborHours * factor,
+    laborCost: split.laborCost * factor,
+    materialCost: split.materialCost * factor,
+    total: split.total * factor
+  }
+}
+
+export function priceRoom(
+  room: PricingRoom,
+  rates: RateTableRates = DEFAULT_RATES,
+  redundancyLevel: RedundancyLevel = 'Single'
+): PricedSplit {
+  const split = splitRoomCost({
+    type: room.type,
+    area: room.area,
+    oxygenOutlets: room.oxygenOutlets,
+    airOutlets: room.airOutlets,
+    vacuumOutlets: room.vacuumOutlets,
+    co2Outlets: room.co2Outlets ?? 0,
+    n2oOutlets: room.n2oOutlets ?? 0,
+    wagdOutlets: room.wagdOutlets,
+    nitrogenOutlets: room.nitrogenOutlets,
+    instrumentAirOutlets: room.instrumentAirOutlets,
+    argonOutlets: room.argonOutlets
+  }, rates)
+
+  return scaleSplit(split, REDUNDANCY_MULTIPLIERS[redundancyLevel])
+}
+
+// Line items behind priceRoom: count x rate per outlet, area x rate for piping
+export function breakDownRoomCost(
+  room: PricingRoom,
+  rates: RateTableRates = DEFAULT_RATES,
+  redundancyLevel: RedundancyLevel = 'Single'
+): RoomCostBreakdown {
+  const counts = outletCounts(room)
+
+  const outlets = (Object.keys(counts) as Array<keyof OutletRates>).map(gas => ({
+    gas,
+    count: counts[gas],
+    rate: rates.outletRates[gas],
+    amount: counts[gas] * rates.outletRates[gas]
+  }))
+
+  const piping = {
+    area: room.area,
+    ratePerSqFt: rates.pipingCostPerSqFt,
+    amount: room.area * rates.pipingCostPerSqFt
+  }
+
+  const baseCost = outlets.reduce((sum, line) => sum + line.amount, 0) + piping.amount
+  const complexityMultiplier = getComplexityMultiplier(rates, room.type)
+  const redundancyMultiplier = REDUNDANCY_MULTIPLIERS[redundancyLevel]
+
+  return {
+    roomType: normalizeRoomType(room.type),
+    outlets,
+    piping,
+    baseCost,
+    complexityMultiplier,
+    redundancyMultiplier,
+    subtotal: baseCost * complexityMultiplier * redundancyMultiplier
+  }
+}
+
+export function priceEquipment(item: PricingEquipment, rates: RateTableRates = DEFAULT_RATES): PricedSplit {
+  const quantities: EquipmentQuantities = {
+    quantity: item.quantity,
+    unitCost: item.unitCost,
+    installationCost: item.installationCost ?? 0
+  }
+  return splitEquipmentCost(quantities, rates)
+}
+
+export function priceEstimate(
+  rooms: PricingRoom[],
+  equipment: PricingEquipment[],
+  options: PricingOptions = {}
+): PricingResult {
+  const { rates = DEFAULT_RATES, redundancyLevel = 'Single' } = options
+
+  // Pin the pricing date so the base bid and alternates escalate identically
+  const escalation = options.escalation
+    ? { ...options.escalation, pricingDate: options.escalation.pricingDate ?? new Date() }
+    : null
+  const splitOptions = { ...options, escalation }
+
+  const roomSplits = rooms.map(room => priceRoom(room, rates, redundancyLevel))
+  const equipmentSplits = equipment.map(item => priceEquipment(item, rates))
+  const base = priceSplits(roomSplits, equipmentSplits, splitOptions)
+
+  // Each alternate is the difference between base plus alternate and the base bid,
+  // so it carries its exact share of the regional factor, escalation and markups
+  const alternates = (options.alternates ?? []).map((alternate, index) => {
+    const sign = alternate.type === 'DEDUCT' ? -1 : 1
+    const altRoomSplits = alternate.rooms.map(room => scaleSplit(priceRoom(room, rates, redundancyLevel), sign))
+    const altEquipmentSplits = alternate.equipment.map(item => scaleSplit(priceEquipment(item, rates), sign))
+
+    const withAlternate = priceSplits(
+      [...roomSplits, ...altRoomSplits],
+      [...equipmentSplits, ...altEquipmentSplits],
+      splitOptions
+    )
+    const directCost = [...altRoomSplits, ...altEquipmentSplits].reduce((sum, split) => sum + split.total, 0)
+    const amount = withAlternate.total - base.total
+
+    return {
+      id: alternate.id ?? null,
+      number: index + 1,
+      name: alternate.name,
+      type: alternate.type,
+      directCost,
+      markupShare: amount - directCost,
+      amount
+    }
+  })
+
+  return { ...base, alternates }
+}
+
+// Regional adjustment, escalation and markups on already-priced lines
+export function priceSplits(
+  roomSplits: PricedSplit[],
+  equipmentSplits: PricedSplit[],
+  options: Pick<PricingOptions, 'region' | 'escalation' | 'markupStack'> = {}
+): PricingResult {
+  const { region = NATIONAL_AVERAGE, markupStack = DEFAULT_MARKUP_STACK } = options
+
+  const roomCosts = roomSplits.reduce((sum, split) => sum + split.total, 0)
+  const equipmentCosts = equipmentSplits.reduce((sum, split) => sum + split.total, 0)
+  const equipmentMaterialCost = equipmentSplits.reduce((sum, split) => sum + split.materialCost, 0)
+  const installationCost = equipmentSplits.reduce((sum, split) => sum + split.laborCost, 0)
+  const { laborHours, laborCost, materialCost } = sumSplits([...roomSplits, ...equipmentSplits])
+
+  // Location adjustment applied separately to the labor and material portions
+  const regionalAdjustment = applyRegionalFactor(laborCost, materialCost, region)
+  const adjustedCost = roomCosts + equipmentCosts + regionalAdjustment.amount
+
+  // Escalate from today's dollars to the construction midpoint
+  const escalation = options.escalation ? calculateEscalation(adjustedCost, options.escalation) : null
+  const escalationCost = escalation?.amount ?? 0
+
+  const subtotal = adjustedCost + escalationCost
+
+  // Material cost carried through the same regional and escalation factors, for sales tax
+  const adjustedMaterial = materialCost * region.materialFactor * (escalation?.factor ?? 1)
+
+  const { markups, markupTotal, total } = applyMarkupStack(subtotal, adjustedMaterial, markupStack)
+
+  return {
+    roomCosts,
+    equipmentCosts,
+    equipmentMaterialCost,
+    installationCost,
+    laborHours,
+    laborCost,
+    materialCost,
+    regionalAdjustment,
+    escalation,
+    escalationCost,
+    subtotal,
+    markups,
+    markupTotal,
+    complianceCost: getMarkupAmount(markups, 'compliance'),
+    contingencyCost: getMarkupAmount(markups, 'contingency'),
+    total,
+    alternates: []
+  }
+}
+
+export function toCostSummary(result: PricingResult): CostSummary {
+  return {
+    equipment: result.equipmentMaterialCost,
+    installation: result.installationCost,
+    medicalGas: result.roomCosts,
+    compliance: result.complianceCost,
+    contingency: result.contingencyCost,
+    total: result.total,
+    laborHours: result.laborHours,
+    laborCost: result.laborCost,
+    materialCost: result.materialCost,
+    regionalAdjustment: result.regionalAdjustment,
+    escalation: result.escalation,
+    markups: result.markups,
+    alternates: result.alternates
+  }
+}
+
+export function buildCostCodeReport(
+  lines: CostCodedLine[],
+  result: Pick<PricingResult, 'regionalAdjustment' | 'escalationCost' | 'markups' | 'total'>
+): CostCodeReport {
+  return {
+    directCost: rollUpByCostCode(lines),
+    regionalAdjustment: result.regionalAdjustment?.amount ?? 0,
+    escalationCost: result.escalationCost ?? 0,
+    markups: (result.markups ?? []).map(({ key, label, amount }) => ({ key, label, amount })),
+    total: result.total
+  }
+}
+
+// Prices the rooms and equipment and rolls them up by cost code
+export function priceCostCodeReport(
+  rooms: PricingRoom[],
+  equipment: PricingEquipment[],
+  options: PricingOptions = {}
+): CostCodeReport {
+  const { rates = DEFAULT_RATES, redundancyLevel = 'Single' } = options
+
+  const lines: CostCodedLine[] = [
+    ...rooms.map(room => ({
+      costCode: room.costCode || DEFAULT_ROOM_COST_CODE,
+      description: room.name || room.type,
+      amount: priceRoom(room, rates, redundancyLevel).total
+    })),
+    ...equipment.map(item => ({
+      costCode: resolveEquipmentCostCode(item.category, item.costCode),
+      description: item.name || item.category || 'Equipment',
+      amount: priceEquipment(item, rates).total
+    }))
+  ]
+
+  return buildCostCodeReport(lines, priceEstimate(rooms, equipment, options))
+}
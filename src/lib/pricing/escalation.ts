@@ -0,0 +1,72 @@
+// Escalates today's-dollar estimates to the midpoint of construction.
+
+// ===== TYPES =====
+
+export interface EscalationInput {
+  startDate?: Date | null
+  durationMonths: number
+  annualRate: number // e.g. 0.04 for 4% per year
+  pricingDate?: Date // date the base costs are priced at; defaults to now
+}
+
+// Persisted in Estimate.costBreakdown as its own line
+export interface AppliedEscalation {
+  pricingDate: string
+  startDate: string
+  midpointDate: string
+  durationMonths: number
+  monthsToMidpoint: number
+  annualRate: number
+  factor: number
+  amount: number
+}
+
+// ===== DEFAULTS =====
+
+export const DEFAULT_ANNUAL_ESCALATION_RATE = 0.04
+
+// ===== HELPERS =====
+
+// Average of a template range like "18-24" or "18-24 months"; single values pass through
+export function parseConstructionTime(constructionTime: string | null | undefined): number | null {
+  if (!constructionTime) return null
+
+  const numbers = constructionTime.match(/\d+(\.\d+)?/g)
+  if (!numbers) return null
+
+  const values = numbers.slice(0, 2).map(Number)
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date)
+  const wholeMonths = Math.floor(months)
+  result.setMonth(result.getMonth() + wholeMonths)
+  result.setDate(result.getDate() + Math.round((months - wholeMonths) * 30.44))
+  return result
+}
+
+export function monthsBetween(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / (1000 * 60 * 60 * 24 * 30.44)
+}
+
+export function calculateEscalation(baseCost: number, input: EscalationInput): AppliedEscalation {
+  const pricingDate = input.pricingDate ?? new Date()
+  // Work that has already started is escalated from the pricing date
+  const startDate = input.startDate && input.startDate > pricingDate ? input.startDate : pricingDate
+  const midpointDate = addMonths(startDate, input.durationMonths / 2)
+
+  const monthsToMidpoint = Math.max(0, monthsBetween(pricingDate, midpointDate))
+  const factor = Math.pow(1 + input.annualRate, monthsToMidpoint / 12)
+
+  return {
+    pricingDate: pricingDate.toISOString(),
+    startDate: startDate.toISOString(),
+    midpointDate: midpointDate.toISOString(),
+    durationMonths: input.durationMonths,
+    monthsToMidpoint,
+    annualRate: input.annualRate,
+    factor,
+    amount: baseCost * (factor - 1)
+  }
+}
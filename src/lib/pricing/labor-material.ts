@@ -0,0 +1,111 @@
+import { OutletRates, RateTableRates, getComplexityMultiplier } from './rate-tables'
+
+// Splits installed costs into labor (hours x crew rate) and material.
+// Installed unit prices stay the source of truth for totals; the labor
+// portion is derived from labor-hour factors and the remainder is material.
+
+// ===== TYPES =====
+
+export interface CostSplit {
+  laborHours: number
+  laborCost: number
+  materialCost: number
+}
+
+export interface PricedSplit extends CostSplit {
+  total: number
+}
+
+export interface RoomQuantities {
+  type: string
+  area: number
+  oxygenOutlets: number
+  airOutlets: number
+  vacuumOutlets: number
+  co2Outlets: number
+  n2oOutlets: number
+  wagdOutlets?: number
+  nitrogenOutlets?: number
+  instrumentAirOutlets?: number
+  argonOutlets?: number
+}
+
+export interface EquipmentQuantities {
+  quantity: number
+  unitCost: number
+  installationCost: number
+}
+
+export const EMPTY_SPLIT: CostSplit = { laborHours: 0, laborCost: 0, materialCost: 0 }
+
+// ===== HELPERS =====
+
+export function outletCounts(room: Omit<RoomQuantities, 'type' | 'area' | 'co2Outlets' | 'n2oOutlets'> & {
+  co2Outlets?: number
+  n2oOutlets?: number
+}): OutletRates {
+  return {
+    oxygen: room.oxygenOutlets,
+    air: room.airOutlets,
+    vacuum: room.vacuumOutlets,
+    co2: room.co2Outlets ?? 0,
+    n2o: room.n2oOutlets ?? 0,
+    wagd: room.wagdOutlets ?? 0,
+    nitrogen: room.nitrogenOutlets ?? 0,
+    instrumentAir: room.instrumentAirOutlets ?? 0,
+    argon: room.argonOutlets ?? 0
+  }
+}
+
+// Labor hours for a room's outlets and piping, including the complexity multiplier
+export function calculateRoomLaborHours(room: RoomQuantities, rates: RateTableRates): number {
+  const counts = outletCounts(room)
+  const outletHours = (Object.keys(counts) as Array<keyof OutletRates>).reduce(
+    (sum, gas) => sum + counts[gas] * rates.labor.outletLaborHours[gas], 0
+  )
+
+  const pipeLinearFt = room.area * rates.labor.pipingLinearFtPerSqFt
+  const pipingHours = pipeLinearFt * rates.labor.pipingLaborHoursPerLf
+
+  return (outletHours + pipingHours) * getComplexityMultiplier(rates, room.type)
+}
+
+export function splitRoomCost(room: RoomQuantities, rates: RateTableRates): PricedSplit {
+  const counts = outletCounts(room)
+  const outletCost = (Object.keys(counts) as Array<keyof OutletRates>).reduce(
+    (sum, gas) => sum + counts[gas] * rates.outletRates[gas], 0
+  )
+  const pipingCost = room.area * rates.pipingCostPerSqFt
+  const total = (outletCost + pipingCost) * getComplexityMultiplier(rates, room.type)
+
+  const laborHours = calculateRoomLaborHours(room, rates)
+  const laborCost = Math.min(total, laborHours * rates.labor.crewRates.pipefitter)
+
+  return {
+    laborHours,
+    laborCost,
+    materialCost: total - laborCost,
+    total
+  }
+}
+
+// Equipment installation cost is labor; unit cost is material
+export function splitEquipmentCost(item: EquipmentQuantities, rates: RateTableRates): PricedSplit {
+  const materialCost = item.quantity * item.unitCost
+  const laborCost = item.installationCost
+
+  return {
+    laborHours: laborCost / rates.labor.crewRates.equipmentInstaller,
+    laborCost,
+    materialCost,
+    total: materialCost + laborCost
+  }
+}
+
+export function sumSplits(splits: CostSplit[]): CostSplit {
+  return splits.reduce((sum, split) => ({
+    laborHours: sum.laborHours + split.laborHours,
+    laborCost: sum.laborCost + split.laborCost,
+    materialCost: sum.materialCost + split.materialCost
+  }), EMPTY_SPLIT)
+}
@@ -0,0 +1,99 @@
+import { z } from 'zod'
+
+// Ordered markup stack applied on top of direct cost. Compounding entries
+// apply to the running total (direct cost plus every markup above them);
+// flat entries apply to the direct cost only. Material-basis entries such as
+// sales tax apply to material cost only.
+
+// ===== VALIDATION SCHEMAS =====
+
+export const MarkupEntrySchema = z.object({
+  key: z.string().min(1, 'Markup key is required'),
+  label: z.string().min(1, 'Markup label is required'),
+  rate: z.number().min(0).max(1, 'Markup rate is a fraction, e.g. 0.10'),
+  method: z.enum(['compounding', 'flat']),
+  basis: z.enum(['cost', 'material']).default('cost')
+})
+
+export const MarkupStackSchema = z.array(MarkupEntrySchema)
+
+// ===== TYPES =====
+
+export type MarkupEntry = z.infer<typeof MarkupEntrySchema>
+
+// Persisted in Estimate.costBreakdown, one line per stack entry
+export interface AppliedMarkup extends MarkupEntry {
+  base: number
+  amount: number
+}
+
+export interface MarkupResult {
+  markups: AppliedMarkup[]
+  markupTotal: number
+  total: number
+}
+
+// ===== DEFAULTS =====
+
+// Org default: compliance and contingency as before, the rest off until configured
+export const DEFAULT_MARKUP_STACK: MarkupEntry[] = [
+  { key: 'compliance', label: 'Compliance & Testing', rate: 0.15, method: 'flat', basis: 'cost' },
+  { key: 'contingency', label: 'Contingency', rate: 0.10, method: 'flat', basis: 'cost' },
+  { key: 'general_conditions', label: 'General Conditions', rate: 0, method: 'compounding', basis: 'cost' },
+  { key: 'overhead', label: 'Overhead', rate: 0, method: 'compounding', basis: 'cost' },
+  { key: 'profit', label: 'Profit', rate: 0, method: 'compounding', basis: 'cost' },
+  { key: 'bond', label: 'Bond', rate: 0, method: 'compounding', basis: 'cost' },
+  { key: 'builders_risk', label: "Builder's Risk Insurance", rate: 0, method: 'compounding', basis: 'cost' },
+  { key: 'sales_tax', label: 'Sales Tax (materials)', rate: 0, method: 'flat', basis: 'material' }
+]
+
+// Templates carry higher compliance and contingency for complex systems
+export const TEMPLATE_MARKUP_STACK: MarkupEntry[] = DEFAULT_MARKUP_STACK.map(entry => {
+  if (entry.key === 'compliance') return { ...entry, rate: 0.18 }
+  if (entry.key === 'contingency') return { ...entry, rate: 0.12 }
+  return entry
+})
+
+// ===== HELPERS =====
+
+export function applyMarkupStack(
+  directCost: number,
+  materialCost: number,
+  stack: MarkupEntry[] = DEFAULT_MARKUP_STACK
+): MarkupResult {
+  let runningTotal = directCost
+
+  const markups = stack.map(entry => {
+    let base: number
+    if (entry.basis === 'material') {
+      base = materialCost
+    } else {
+      base = entry.method === 'compounding' ? runningTotal : directCost
+    }
+
+    const amount = base * entry.rate
+    runningTotal += amount
+
+    return { ...entry, base, amount }
+  })
+
+  return {
+    markups,
+    markupTotal: runningTotal - directCost,
+    total: runningTotal
+  }
+}
+
+// Amount for a given stack key, 0 if the stack doesn't include it
+export function getMarkupAmount(markups: AppliedMarkup[], key: string): number {
+  return markups
+    .filter(markup => markup.key === key)
+    .reduce((sum, markup) => sum + markup.amount, 0)
+}
+
+// How an entry is applied, for estimate displays: '15% of direct cost'
+export function describeMarkup(entry: MarkupEntry): string {
+  const rate = `${Number((entry.rate * 100).toFixed(2))}%`
+  if (entry.basis === 'material') return `${rate} of material cost`
+  return entry.method === 'compounding' ? `${rate} of running total` : `${rate} of direct cost`
+}
@@ -0,0 +1,109 @@
+import { z } from 'zod'
+import { normalizeRoomType, toRoomTypeKey } from './room-types'
+
+// Unit-price definitions shared by the server estimate service and the
+// client-side template service. No database access here so it can be
+// bundled into React pages.
+
+// ===== VALIDATION SCHEMAS =====
+
+// Specialty gases were added after rate tables were first published, so
+// stored tables without them fall back to these defaults
+type SpecialtyOutletDefaults = Record<'wagd' | 'nitrogen' | 'instrumentAir' | 'argon', number>
+
+const outletRatesSchema = (defaults: SpecialtyOutletDefaults) => z.object({
+  oxygen: z.number().min(0),
+  air: z.number().min(0),
+  vacuum: z.number().min(0),
+  co2: z.number().min(0),
+  n2o: z.number().min(0),
+  wagd: z.number().min(0).default(defaults.wagd),
+  nitrogen: z.number().min(0).default(defaults.nitrogen), // 160-200 psi, with control panel
+  instrumentAir: z.number().min(0).default(defaults.instrumentAir), // 160-200 psi, with control panel
+  argon: z.number().min(0).default(defaults.argon)
+})
+
+export const OutletRatesSchema = outletRatesSchema({ wagd: 1400, nitrogen: 2800, instrumentAir: 2600, argon: 1800 })
+const OutletLaborHoursSchema = outletRatesSchema({ wagd: 6, nitrogen: 8, instrumentAir: 8, argon: 6 })
+
+export const LaborRatesSchema = z.object({
+  crewRates: z.object({
+    pipefitter: z.number().positive(), // $ per hour, outlets and piping
+    equipmentInstaller: z.number().positive() // $ per hour, equipment installs
+  }),
+  outletLaborHours: OutletLaborHoursSchema, // hours per outlet
+  pipingLinearFtPerSqFt: z.number().min(0), // pipe run per sq ft of room area
+  pipingLaborHoursPerLf: z.number().min(0) // hours per linear foot of pipe
+})
+
+// Rate tables published before labor rates existed fall back to these
+export const DEFAULT_LABOR_RATES: z.infer<typeof LaborRatesSchema> = {
+  crewRates: {
+    pipefitter: 95,
+    equipmentInstaller: 85
+  },
+  outletLaborHours: {
+    oxygen: 6,
+    air: 5,
+    vacuum: 6,
+    co2: 5,
+    n2o: 5,
+    wagd: 6,
+    nitrogen: 8,
+    instrumentAir: 8,
+    argon: 6
+  },
+  pipingLinearFtPerSqFt: 0.25,
+  pipingLaborHoursPerLf: 0.5
+}
+
+export const RateTableRatesSchema = z.object({
+  outletRates: OutletRatesSchema, // $ per outlet, installed
+  pipingCostPerSqFt: z.number().min(0), // $ per sq ft of room area, installed
+  complexityMultipliers: z.record(z.number().positive()), // keyed on canonical RoomType or a custom snake_case room key
+  labor: LaborRatesSchema.default(DEFAULT_LABOR_RATES)
+})
+
+// ===== TYPES =====
+
+export type OutletRates = z.infer<typeof OutletRatesSchema>
+export type LaborRates = z.infer<typeof LaborRatesSchema>
+export type RateTableRates = z.infer<typeof RateTableRatesSchema>
+
+// ===== DEFAULTS =====
+
+// Fallback used when no rate table has been published yet
+export const DEFAULT_RATES: RateTableRates = {
+  outletRates: {
+    oxygen: 1500,
+    air: 1200,
+    vacuum: 1400,
+    co2: 1300,
+    n2o: 1350,
+    wagd: 1400,
+    nitrogen: 2800,
+    instrumentAir: 2600,
+    argon: 1800
+  },
+  pipingCostPerSqFt: 30,
+  complexityMultipliers: {
+    operating_room: 1.5,
+    icu: 1.3,
+    nicu: 1.3,
+    emergency_room: 1.4,
+    recovery_room: 1.1,
+    patient_room: 1.0,
+    support_room: 0.8
+  },
+  labor: DEFAULT_LABOR_RATES
+}
+
+// ===== HELPERS =====
+
+// Accepts canonical ids and legacy strings like 'Operating Room' or 'Surgical Suite'.
+// Room types outside the canonical list are looked up by their own snake_case key,
+// since published rate tables may price them.
+export function getComplexityMultiplier(rates: RateTableRates, roomType: string): number {
+  const key = normalizeRoomType(roomType) ?? toRoomTypeKey(roomType || '')
+  return rates.complexityMultipliers[key] ?? 1.0
+}
@@ -0,0 +1,116 @@
+// Location-based labor and material cost factors. Pure matching and
+// adjustment logic; the index rows themselves live in the database.
+
+// ===== TYPES =====
+
+export interface RegionalCostFactor {
+  id?: string
+  label: string
+  city?: string | null
+  state: string
+  zipPrefix?: string | null // first three digits of the ZIP code
+  laborFactor: number
+  materialFactor: number
+}
+
+export interface ParsedLocation {
+  city?: string
+  state?: string
+  zip?: string
+}
+
+// Persisted in Estimate.costBreakdown so the adjustment can be shown explicitly
+export interface AppliedRegionalAdjustment {
+  regionalCostIndexId: string | null
+  label: string
+  laborFactor: number
+  materialFactor: number
+  baseLabor: number
+  baseMaterial: number
+  amount: number
+}
+
+// ===== DEFAULTS =====
+
+export const NATIONAL_AVERAGE: RegionalCostFactor = {
+  label: 'National average',
+  state: 'US',
+  laborFactor: 1,
+  materialFactor: 1
+}
+
+// ===== HELPERS =====
+
+// Parses free-text locations like "Austin, TX 78701" or "Boston, MA"
+export function parseLocation(location: string | null | undefined): ParsedLocation {
+  if (!location) return {}
+
+  const parsed: ParsedLocation = {}
+
+  const zipMatch = location.match(/\b(\d{5})(?:-\d{4})?\b/)
+  if (zipMatch) {
+    parsed.zip = zipMatch[1]
+  }
+
+  const parts = location.split(',').map(part => part.trim()).filter(Boolean)
+  if (parts.length >= 2) {
+    parsed.city = parts[0]
+    const stateMatch = parts[1].match(/^([A-Za-z]{2})\b/)
+    if (stateMatch) {
+      parsed.state = stateMatch[1].toUpperCase()
+    }
+  } else if (parts.length === 1) {
+    const stateMatch = parts[0].match(/^([A-Za-z]{2})\b/)
+    if (stateMatch && !zipMatch) {
+      parsed.state = stateMatch[1].toUpperCase()
+    }
+  }
+
+  return parsed
+}
+
+// Most specific match wins: ZIP prefix, then city + state, then state-wide
+export function matchRegionalFactor(
+  location: string | null | undefined,
+  factors: RegionalCostFactor[]
+): RegionalCostFactor | null {
+  const parsed = parseLocation(location)
+
+  if (parsed.zip) {
+    const zipPrefix = parsed.zip.substring(0, 3)
+    const byZip = factors.find(factor => factor.zipPrefix === zipPrefix)
+    if (byZip) return byZip
+  }
+
+  if (parsed.state) {
+    const city = parsed.city?.toLowerCase()
+    const inState = factors.filter(factor => factor.state.toUpperCase() === parsed.state)
+
+    const byCity = city && inState.find(factor => factor.city?.toLowerCase() === city)
+    if (byCity) return byCity
+
+    const stateWide = inState.find(factor => !factor.city && !factor.zipPrefix)
+    if (stateWide) return stateWide
+  }
+
+  return null
+}
+
+export function applyRegionalFactor(
+  baseLabor: number,
+  baseMaterial: number,
+  factor: Pick<RegionalCostFactor, 'id' | 'label' | 'laborFactor' | 'materialFactor'> = NATIONAL_AVERAGE
+): AppliedRegionalAdjustment {
+  const adjustedLabor = baseLabor * factor.laborFactor
+  const adjustedMaterial = baseMaterial * factor.materialFactor
+
+  return {
+    regionalCostIndexId: factor.id ?? null,
+    label: factor.label,
+    laborFactor: factor.laborFactor,
+    materialFactor: factor.materialFactor,
+    baseLabor,
+    baseMaterial,
+    amount: (adjustedLabor - baseLabor) + (adjustedMaterial - baseMaterial)
+  }
+}
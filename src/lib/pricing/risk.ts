@@ -0,0 +1,251 @@
+import { z } from 'zod'
+import { PricedSplit } from './labor-material'
+import { PricingOptions, PricingResult, priceSplits, scaleSplit } from './engine'
+import { DEFAULT_MARKUP_STACK, MarkupEntry } from './markups'
+
+// Monte Carlo risk analysis on top of the pricing engine. Rooms and equipment
+// carry ranges as factors on their priced cost (0.9 / 1.0 / 1.3); markups
+// carry ranges on their rate (0.08 / 0.10 / 0.15). The contingency markup is
+// left out of the simulation: the recommended contingency comes from the
+// chosen confidence level instead.
+
+// ===== VALIDATION SCHEMAS =====
+
+export const RiskRangeSchema = z.object({
+  low: z.number().min(0),
+  mostLikely: z.number().min(0),
+  high: z.number().min(0),
+  distribution: z.enum(['triangular', 'pert']).default('triangular')
+}).refine(range => range.low <= range.mostLikely && range.mostLikely <= range.high, {
+  message: 'Risk range must satisfy low <= mostLikely <= high'
+})
+
+export const RiskAnalysisSchema = z.object({
+  iterations: z.number().int().min(100).max(50000).default(5000),
+  seed: z.number().int().default(1),
+  confidenceLevel: z.number().min(0.5).max(0.99).default(0.8),
+  rooms: z.record(RiskRangeSchema).default({}), // keyed on room id
+  equipment: z.record(RiskRangeSchema).default({}), // keyed on equipment id
+  markups: z.record(RiskRangeSchema).default({}), // keyed on markup key
+  defaultRoomRange: RiskRangeSchema.optional(),
+  defaultEquipmentRange: RiskRangeSchema.optional()
+})
+
+// ===== TYPES =====
+
+export type RiskRange = z.infer<typeof RiskRangeSchema>
+export type RiskAnalysisInput = z.infer<typeof RiskAnalysisSchema>
+
+export interface RiskLine {
+  id: string
+  label: string
+  split: PricedSplit
+  range?: RiskRange
+}
+
+export interface TornadoEntry {
+  driver: string
+  kind: 'room' | 'equipment' | 'markup'
+  label: string
+  lowTotal: number
+  highTotal: number
+  swing: number
+}
+
+export interface RiskAnalysisResult {
+  iterations: number
+  seed: number
+  confidenceLevel: number
+  baseTotal: number // deterministic total without contingency
+  mean: number
+  percentiles: {
+    p10: number
+    p50: number
+    p80: number
+    p90: number
+  }
+  confidenceTotal: number
+  recommendedContingency: number
+  recommendedContingencyRate: number // fraction of subtotal
+  tornado: TornadoEntry[]
+}
+
+// ===== RANDOM SAMPLING =====
+
+// Mulberry32: small, fast and reproducible for a given seed
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function sampleNormal(random: () => number): number {
+  const u = 1 - random()
+  const v = random()
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+}
+
+// Marsaglia-Tsang; shape >= 1 for every PERT range we produce
+function sampleGamma(shape: number, random: () => number): number {
+  const d = shape - 1 / 3
+  const c = 1 / Math.sqrt(9 * d)
+
+  for (;;) {
+    let x: number
+    let v: number
+    do {
+      x = sampleNormal(random)
+      v = 1 + c * x
+    } while (v <= 0)
+
+    v = v * v * v
+    const u = random()
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) {
+      return d * v
+    }
+  }
+}
+
+function sampleTriangular(range: RiskRange, random: () => number): number {
+  const { low, mostLikely, high } = range
+  if (high === low) return mostLikely
+
+  const u = random()
+  const split = (mostLikely - low) / (high - low)
+  if (u < split) {
+    return low + Math.sqrt(u * (high - low) * (mostLikely - low))
+  }
+  return high - Math.sqrt((1 - u) * (high - low) * (high - mostLikely))
+}
+
+function samplePert(range: RiskRange, random: () => number): number {
+  const { low, mostLikely, high } = range
+  if (high === low) return mostLikely
+
+  const alpha = 1 + 4 * (mostLikely - low) / (high - low)
+  const beta = 1 + 4 * (high - mostLikely) / (high - low)
+  const x = sampleGamma(alpha, random)
+  const y = sampleGamma(beta, random)
+
+  return low + (x / (x + y)) * (high - low)
+}
+
+export function sampleRange(range: RiskRange, random: () => number): number {
+  return range.distribution === 'pert' ? samplePert(range, random) : sampleTriangular(range, random)
+}
+
+// ===== HELPERS =====
+
+function percentile(sorted: number[], fraction: number): number {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(fraction * sorted.length) - 1))
+  return sorted[index]
+}
+
+function withoutContingency(stack: MarkupEntry[]): MarkupEntry[] {
+  return stack.filter(entry => entry.key !== 'contingency')
+}
+
+// ===== SIMULATION =====
+
+export function runRiskAnalysis(
+  rooms: RiskLine[],
+  equipment: RiskLine[],
+  options: Pick<PricingOptions, 'region' | 'escalation' | 'markupStack'>,
+  input: Partial<RiskAnalysisInput> = {}
+): RiskAnalysisResult {
+  const settings = RiskAnalysisSchema.parse(input)
+  const random = createRandom(settings.seed)
+
+  const markupStack = withoutContingency(options.markupStack ?? DEFAULT_MARKUP_STACK)
+  // Pin the pricing date so escalation doesn't drift between iterations
+  const escalation = options.escalation
+    ? { ...options.escalation, pricingDate: options.escalation.pricingDate ?? new Date() }
+    : null
+  const baseOptions = { ...options, escalation, markupStack }
+
+  const roomRanges = rooms.map(room => room.range ?? settings.rooms[room.id] ?? settings.defaultRoomRange)
+  const equipmentRanges = equipment.map(item => item.range ?? settings.equipment[item.id] ?? settings.defaultEquipmentRange)
+  const markupRanges = markupStack.map(entry => settings.markups[entry.key])
+
+  const price = (roomFactors: number[], equipmentFactors: number[], markupRates: number[]): PricingResult =>
+    priceSplits(
+      rooms.map((room, i) => scaleSplit(room.split, roomFactors[i])),
+      equipment.map((item, i) => scaleSplit(item.split, equipmentFactors[i])),
+      { ...baseOptions, markupStack: markupStack.map((entry, i) => ({ ...entry, rate: markupRates[i] })) }
+    )
+
+  const baseRoomFactors = roomRanges.map(range => range?.mostLikely ?? 1)
+  const baseEquipmentFactors = equipmentRanges.map(range => range?.mostLikely ?? 1)
+  const baseMarkupRates = markupStack.map((entry, i) => markupRanges[i]?.mostLikely ?? entry.rate)
+  const base = price(baseRoomFactors, baseEquipmentFactors, baseMarkupRates)
+
+  // Simulate
+  const totals: number[] = []
+  for (let i = 0; i < settings.iterations; i++) {
+    const roomFactors = roomRanges.map(range => range ? sampleRange(range, random) : 1)
+    const equipmentFactors = equipmentRanges.map(range => range ? sampleRange(range, random) : 1)
+    const markupRates = markupStack.map((entry, j) => markupRanges[j] ? sampleRange(markupRanges[j], random) : entry.rate)
+    totals.push(price(roomFactors, equipmentFactors, markupRates).total)
+  }
+  totals.sort((a, b) => a - b)
+
+  // Tornado: swing in total from each driver's low to high, others at most likely
+  const tornado: TornadoEntry[] = []
+  const swingFor = (
+    driver: string,
+    kind: TornadoEntry['kind'],
+    label: string,
+    range: RiskRange,
+    apply: (value: number) => PricingResult
+  ) => {
+    const lowTotal = apply(range.low).total
+    const highTotal = apply(range.high).total
+    tornado.push({ driver, kind, label, lowTotal, highTotal, swing: highTotal - lowTotal })
+  }
+
+  rooms.forEach((room, i) => {
+    const range = roomRanges[i]
+    if (!range) return
+    swingFor(room.id, 'room', room.label, range, value =>
+      price(baseRoomFactors.map((f, j) => j === i ? value : f), baseEquipmentFactors, baseMarkupRates))
+  })
+  equipment.forEach((item, i) => {
+    const range = equipmentRanges[i]
+    if (!range) return
+    swingFor(item.id, 'equipment', item.label, range, value =>
+      price(baseRoomFactors, baseEquipmentFactors.map((f, j) => j === i ? value : f), baseMarkupRates))
+  })
+  markupStack.forEach((entry, i) => {
+    const range = markupRanges[i]
+    if (!range) return
+    swingFor(entry.key, 'markup', entry.label, range, value =>
+      price(baseRoomFactors, baseEquipmentFactors, baseMarkupRates.map((r, j) => j === i ? value : r)))
+  })
+  tornado.sort((a, b) => b.swing - a.swing)
+
+  const confidenceTotal = percentile(totals, settings.confidenceLevel)
+  const recommendedContingency = Math.max(0, confidenceTotal - base.total)
+
+  return {
+    iterations: settings.iterations,
+    seed: settings.seed,
+    confidenceLevel: settings.confidenceLevel,
+    baseTotal: base.total,
+    mean: totals.reduce((sum, total) => sum + total, 0) / totals.length,
+    percentiles: {
+      p10: percentile(totals, 0.1),
+      p50: percentile(totals, 0.5),
+      p80: percentile(totals, 0.8),
+      p90: percentile(totals, 0.9)
+    },
+    confidenceTotal,
+    recommendedContingency,
+    recommendedContingencyRate: base.subtotal > 0 ? recommendedContingency / base.subtotal : 0,
+    tornado
+  }
+}
@@ -0,0 +1,65 @@
+// Canonical room-type taxonomy. Rate tables, templates and pages key on these
+// snake_case ids; legacy display strings are mapped through normalizeRoomType.
+
+// ===== TYPES =====
+
+export const ROOM_TYPES = {
+  operating_room: 'Operating Room',
+  icu: 'ICU',
+  nicu: 'NICU',
+  emergency_room: 'Emergency Room',
+  recovery_room: 'Recovery Room',
+  patient_room: 'Patient Room',
+  support_room: 'Support Room'
+} as const
+
+export type RoomType = keyof typeof ROOM_TYPES
+
+// ===== LEGACY ALIASES =====
+
+// Older estimates, templates and form options used these names
+const ROOM_TYPE_ALIASES: Record<string, RoomType> = {
+  or: 'operating_room',
+  operating_theater: 'operating_room',
+  surgical_suite: 'operating_room',
+  surgery: 'operating_room',
+  intensive_care: 'icu',
+  intensive_care_unit: 'icu',
+  neonatal_icu: 'nicu',
+  er: 'emergency_room',
+  ed: 'emergency_room',
+  emergency: 'emergency_room',
+  emergency_department: 'emergency_room',
+  pacu: 'recovery_room',
+  recovery: 'recovery_room',
+  patient: 'patient_room',
+  inpatient_room: 'patient_room',
+  support: 'support_room'
+}
+
+// ===== HELPERS =====
+
+// Snake_case key for a room type string, canonical or not
+export function toRoomTypeKey(roomType: string): string {
+  return roomType.trim().toLowerCase().replace(/[\s-]+/g, '_')
+}
+
+export function isRoomType(value: string): value is RoomType {
+  return Object.prototype.hasOwnProperty.call(ROOM_TYPES, value)
+}
+
+// 'Operating Room', 'operating_room', 'OR' and 'Surgical Suite' all map to
+// 'operating_room'; unknown types return null
+export function normalizeRoomType(roomType: string | null | undefined): RoomType | null {
+  if (!roomType) return null
+
+  const key = toRoomTypeKey(roomType)
+  if (isRoomType(key)) return key
+
+  return Object.prototype.hasOwnProperty.call(ROOM_TYPE_ALIASES, key) ? ROOM_TYPE_ALIASES[key] : null
+}
+
+export function getRoomTypeLabel(roomType: string): string {
+  const normalized = normalizeRoomType(roomType)
+  return normalized ? ROOM_TYPES[normalized] : roomType
+}
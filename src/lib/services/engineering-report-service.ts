@@ -0,0 +1,505 @@
+import { prisma, withTransaction } from '../db'
+import { z } from 'zod'
+import {
+  ComplianceCheck,
+  DemandZone,
+  EngineeringReportSummary,
+  MedicalGasSystem,
+  RoomGasRequirements,
+  medicalGasEngineering
+} from '@/services/medicalGasEngineering'
+import { ValveAlarmLayout } from '@/services/valveAlarmLayout'
+import { SupplyEquipmentLine } from '@/services/supplySizing'
+import { buildRoomGasRequirements, withRoomGasDefaults } from '@/services/estimateGasAdapter'
+import { networkFromSI, overrideFromSI, roomsFromSI } from '@/services/engineeringUnits'
+import { EquipmentInput, EstimateService, EstimateWithDetails } from './estimate-service'
+import { RateTableService } from './rate-table-service'
+import { RegionalCostService } from './regional-cost-service'
+
+// ===== VALIDATION SCHEMAS =====
+
+const GasTypeSchema = z.enum([
+  'oxygen', 'air', 'vacuum', 'co2', 'n2o', 'nitrogen', 'argon', 'wagd', 'instrument_air'
+])
+
+const AreaTypeSchema = z.enum([
+  'anesthetizing', 'critical_care', 'neonatal', 'emergency', 'recovery', 'general_care', 'support'
+])
+
+export const MedicalGasOutletSchema = z.object({
+  type: GasTypeSchema,
+  quantity: z.number().int().min(0),
+  flowRate: z.number().min(0).default(0), // 0 uses the demand table flow
+  pressure: z.number().optional(), // omitted uses the gas default
+  simultaneousFactor: z.number().min(0).max(1).default(1),
+  backupRequired: z.boolean().default(false),
+  location: z.object({
+    room: z.string().default(''),
+    wallLocation: z.string().default('headwall'),
+    heightFromFloor: z.number().min(0).optional() // omitted uses the room-type default
+  }).default({})
+})
+
+export const RoomGasRequirementsSchema = z.object({
+  roomId: z.string().min(1, 'Room ID is required'),
+  roomName: z.string().min(1, 'Room name is required'),
+  roomType: z.string().min(1, 'Room type is required'),
+  floor: z.string().optional(),
+  department: z.string().optional(),
+  area: z.number().min(0),
+  ceilingHeight: z.number().positive().optional(), // omitted uses the room-type default
+  outlets: z.array(MedicalGasOutletSchema),
+  pressurization: z.enum(['positive', 'negative', 'neutral']).default('neutral'),
+  airChangesPerHour: z.number().min(0).default(6),
+  filtrationLevel: z.string().default('MERV 14'),
+  specialRequirements: z.array(z.string()).default([])
+})
+
+export const PipingNetworkSchema = z.object({
+  material: z.enum(['copper', 'stainless_steel', 'chrome_moly']),
+  tubeType: z.enum(['K', 'L']).optional(),
+  segments: z.array(z.object({
+    id: z.string().min(1),
+    parentId: z.string().nullable(),
+    length: z.number().positive(),
+    fittings: z.array(z.object({
+      type: z.enum(['elbow_90', 'elbow_45', 'tee_run', 'tee_branch', 'ball_valve', 'check_valve']),
+      quantity: z.number().int().min(0)
+    })).default([]),
+    outlets: z.array(z.object({
+      roomId: z.string().optional(),
+      areaType: AreaTypeSchema.optional(),
+      quantity: z.number().int().min(0),
+      flowRate: z.number().min(0)
+    })).default([])
+  })).min(1, 'Piping network needs at least one segment')
+})
+
+const OutletOverrideSchema = z.object({
+  flowRate: z.number().positive(),
+  pressure: z.number(),
+  backupRequired: z.boolean(),
+  wallLocation: z.string(),
+  heightFromFloor: z.number().min(0)
+}).partial()
+
+// Overrides on top of the room-type defaults, keyed by estimate room id
+export const RoomGasOverrideSchema = z.object({
+  floor: z.string(),
+  department: z.string(),
+  ceilingHeight: z.number().positive(),
+  pressurization: z.enum(['positive', 'negative', 'neutral']),
+  airChangesPerHour: z.number().min(0),
+  filtrationLevel: z.string(),
+  outlets: z.record(GasTypeSchema, OutletOverrideSchema)
+}).partial()
+
+export const GasSupplyOptionsSchema = z.object({
+  usageHours: z.number().positive().max(24),
+  autonomyDays: z.number().positive(),
+  reserveDays: z.number().min(0),
+  cylinderType: z.enum(['H', 'K'])
+}).partial()
+
+// Rooms default to the estimate's own rooms run through the adapter. With `units: 'si'`
+// rooms, overrides and networks are given in L/min, kPa, m and mm.
+export const GenerateEngineeringReportSchema = z.object({
+  units: z.enum(['imperial', 'si']).default('imperial'),
+  rooms: z.array(RoomGasRequirementsSchema).min(1, 'At least one room is required').optional(),
+  overrides: z.record(RoomGasOverrideSchema).default({}),
+  networks: z.record(PipingNetworkSchema).default({}),
+  supplyOptions: GasSupplyOptionsSchema.default({}),
+  redundancy: z.record(GasTypeSchema, z.enum(['single', 'dual', 'triple'])).default({})
+})
+
+// ===== TYPES =====
+
+export type GenerateEngineeringReportInput = z.input<typeof GenerateEngineeringReportSchema>
+
+export interface EngineeringReportInputs {
+  rooms: RoomGasRequirements[]
+  networks: z.infer<typeof GenerateEngineeringReportSchema>['networks']
+  supplyOptions: z.infer<typeof GasSupplyOptionsSchema>
+  redundancy: z.infer<typeof GenerateEngineeringReportSchema>['redundancy']
+}
+
+// Engineering analysis of an estimate, with the system map flattened for JSON
+export interface EngineeringAnalysis {
+  estimateId: string
+  estimateVersion: number
+  inputs: EngineeringReportInputs
+  summary: EngineeringReportSummary
+  systems: Record<string, MedicalGasSystem>
+  demand: DemandZone[]
+  valveAlarmLayout: ValveAlarmLayout
+  compliance: ComplianceCheck[]
+  recommendations: string[]
+  sourceEquipment: SupplyEquipmentLine[] // priced plant lines for the estimate's equipment
+}
+
+export interface EngineeringReportRecord {
+  id: string
+  estimateId: string
+  estimateVersion: number
+  inputs: EngineeringReportInputs
+  summary: EngineeringReportSummary
+  systems: Record<string, MedicalGasSystem>
+  valveAlarmLayout: ValveAlarmLayout
+  compliance: ComplianceCheck[]
+  recommendations: string[]
+  createdBy: string
+  createdAt: Date
+}
+
+interface ValueChange {
+  from: number
+  to: number
+  change: number
+}
+
+export interface SystemComparison {
+  gasType: string
+  status: 'added' | 'removed' | 'changed' | 'unchanged'
+  peakDemand: ValueChange
+  estimatedCost: ValueChange
+  totalPressureDrop: ValueChange
+}
+
+export interface EngineeringReportComparison {
+  from: { id: string; estimateVersion: number; createdAt: Date }
+  to: { id: string; estimateVersion: number; createdAt: Date }
+  totalSystemCost: ValueChange
+  totalOutlets: ValueChange
+  complianceScore: ValueChange
+  systems: SystemComparison[]
+  compliance: {
+    introduced: ComplianceCheck[] // non-compliant in `to` only
+    resolved: ComplianceCheck[] // non-compliant in `from` only
+  }
+  recommendations: {
+    added: string[]
+    removed: string[]
+  }
+}
+
+// Marks equipment rows written from the plant sizing so a rerun replaces them
+const SOURCE_PLANT_EQUIPMENT = 'engineering_source_plant'
+
+// Stored equipment row back to update input; nullable columns become omitted fields
+function toEquipmentInput(item: {
+  name: string
+  category: string
+  costCode: string
+  manufacturer: string | null
+  model: string | null
+  quantity: number
+  unitCost: unknown
+  installationCost: unknown
+  warranty: string | null
+  powerRequirement: string | null
+  spaceRequirement: unknown
+  maintenanceRequired: boolean
+  specialInstallation: string | null
+  description: string | null
+  specifications: unknown
+}): EquipmentInput {
+  return {
+    name: item.name,
+    category: item.category,
+    costCode: item.costCode,
+    manufacturer: item.manufacturer ?? undefined,
+    model: item.model ?? undefined,
+    quantity: item.quantity,
+    unitCost: Number(item.unitCost),
+    installationCost: Number(item.installationCost),
+    warranty: item.warranty ?? undefined,
+    powerRequirement: item.powerRequirement ?? undefined,
+    spaceRequirement: item.spaceRequirement == null ? undefined : Number(item.spaceRequirement),
+    maintenanceRequired: item.maintenanceRequired,
+    specialInstallation: item.specialInstallation ?? undefined,
+    description: item.description ?? undefined,
+    specifications: (item.specifications as Record<string, unknown> | null) ?? undefined
+  }
+}
+
+function toRecord(report: {
+  id: string
+  estimateId: string
+  estimateVersion: number
+  inputs: unknown
+  summary: unknown
+  systems: unknown
+  valveAlarmLayout: unknown
+  compliance: unknown
+  recommendations: string[]
+  createdBy: string
+  createdAt: Date
+}): EngineeringReportRecord {
+  return {
+    ...report,
+    inputs: report.inputs as EngineeringReportInputs,
+    summary: report.summary as EngineeringReportSummary,
+    systems: report.systems as Record<string, MedicalGasSystem>,
+    valveAlarmLayout: report.valveAlarmLayout as ValveAlarmLayout,
+    compliance: report.compliance as ComplianceCheck[]
+  }
+}
+
+// ===== COMPARISON =====
+
+const valueChange = (from = 0, to = 0): ValueChange => ({ from, to, change: to - from })
+
+const checkKey = (check: ComplianceCheck) => `${check.standard}|${check.requirement}`
+
+function nonCompliantOnly(checks: ComplianceCheck[], others: ComplianceCheck[]): ComplianceCheck[] {
+  const otherKeys = new Set(others.filter(check => check.status === 'non_compliant').map(checkKey))
+  return checks.filter(check => check.status === 'non_compliant' && !otherKeys.has(checkKey(check)))
+}
+
+// Differences between two reports, `from` being the earlier basis
+export function compareEngineeringReports(
+  from: EngineeringReportRecord,
+  to: EngineeringReportRecord
+): EngineeringReportComparison {
+  const gasTypes = Array.from(new Set([...Object.keys(from.systems), ...Object.keys(to.systems)]))
+
+  const systems = gasTypes.map((gasType): SystemComparison => {
+    const before = from.systems[gasType]
+    const after = to.systems[gasType]
+    const comparison = {
+      gasType,
+      peakDemand: valueChange(before?.peakDemand, after?.peakDemand),
+      estimatedCost: valueChange(before?.estimatedCost, after?.estimatedCost),
+      totalPressureDrop: valueChange(before?.distribution.totalPressureDrop, after?.distribution.totalPressureDrop)
+    }
+
+    if (!before) return { ...comparison, status: 'added' }
+    if (!after) return { ...comparison, status: 'removed' }
+    const changed = [comparison.peakDemand, comparison.estimatedCost, comparison.totalPressureDrop]
+      .some(value => value.change !== 0)
+    return { ...comparison, status: changed ? 'changed' : 'unchanged' }
+  })
+
+  return {
+    from: { id: from.id, estimateVersion: from.estimateVersion, createdAt: from.createdAt },
+    to: { id: to.id, estimateVersion: to.estimateVersion, createdAt: to.createdAt },
+    totalSystemCost: valueChange(from.summary.totalSystemCost, to.summary.totalSystemCost),
+    totalOutlets: valueChange(from.summary.totalOutlets, to.summary.totalOutlets),
+    complianceScore: valueChange(from.summary.complianceScore, to.summary.complianceScore),
+    systems,
+    compliance: {
+      introduced: nonCompliantOnly(to.compliance, from.compliance),
+      resolved: nonCompliantOnly(from.compliance, to.compliance)
+    },
+    recommendations: {
+      added: to.recommendations.filter(item => !from.recommendations.includes(item)),
+      removed: from.recommendations.filter(item => !to.recommendations.includes(item))
+    }
+  }
+}
+
+// ===== DATABASE OPERATIONS =====
+
+export class EngineeringReportService {
+
+  // Run the full engineering analysis for a saved estimate without storing it
+  static async analyze(
+    estimateId: string,
+    userId: string,
+    data: GenerateEngineeringReportInput = {}
+  ): Promise<EngineeringAnalysis | null> {
+    // Validate input
+    const validatedData = GenerateEngineeringReportSchema.parse(data)
+
+    const estimate = await prisma.estimate.findFirst({
+      where: { id: estimateId, userId },
+      include: { rooms: true }
+    })
+
+    if (!estimate) {
+      return null
+    }
+
+    // Everything is normalized to the engine's imperial units before it runs or is stored,
+    // and only then are omitted room fields defaulted
+    const si = validatedData.units === 'si'
+    const overrides = si
+      ? Object.fromEntries(Object.entries(validatedData.overrides).map(([roomId, override]) => [roomId, overrideFromSI(override)]))
+      : validatedData.overrides
+    const networks = si
+      ? Object.fromEntries(Object.entries(validatedData.networks).map(([gasType, network]) => [gasType, networkFromSI(network)]))
+      : validatedData.networks
+
+    const rooms = validatedData.rooms
+      ? withRoomGasDefaults(si ? roomsFromSI(validatedData.rooms) : validatedData.rooms)
+      : buildRoomGasRequirements(
+        estimate.rooms.map(room => ({
+          ...room,
+          area: Number(room.area),
+          ceilingHeight: room.ceilingHeight === null ? null : Number(room.ceilingHeight)
+        })),
+        overrides
+      )
+    const inputs: EngineeringReportInputs = {
+      rooms,
+      networks,
+      supplyOptions: validatedData.supplyOptions,
+      redundancy: validatedData.redundancy
+    }
+
+    // Piping labor is priced at the pipefitter rate of the estimate's pinned rate table,
+    // adjusted to its location
+    const { rates } = await RateTableService.resolveRates({
+      rateTableId: estimate.rateTableId,
+      asOf: estimate.createdAt
+    })
+    const region = await RegionalCostService.resolve(estimate.location)
+
+    const report = medicalGasEngineering.generateEngineeringReport(
+      rooms,
+      inputs.networks,
+      inputs.supplyOptions,
+      inputs.redundancy,
+      { laborRate: rates.labor.crewRates.pipefitter * region.laborFactor }
+    )
+
+    return {
+      estimateId,
+      estimateVersion: estimate.version,
+      inputs,
+      summary: report.summary,
+      systems: Object.fromEntries(report.systems),
+      demand: report.demand,
+      valveAlarmLayout: report.valveAlarmLayout,
+      compliance: report.compliance,
+      recommendations: report.recommendations,
+      sourceEquipment: report.sourceEquipment
+    }
+  }
+
+  // Replace the estimate's source plant equipment with the lines from a fresh analysis,
+  // repricing the estimate through the normal update
+  static async applySourceEquipment(
+    estimateId: string,
+    userId: string,
+    data: GenerateEngineeringReportInput = {}
+  ): Promise<EstimateWithDetails | null> {
+    const analysis = await this.analyze(estimateId, userId, data)
+
+    if (!analysis) {
+      return null
+    }
+
+    const current = await prisma.equipment.findMany({ where: { estimateId } })
+    const kept = current
+      .filter(item => (item.specifications as { source?: string } | null)?.source !== SOURCE_PLANT_EQUIPMENT)
+      .map(toEquipmentInput)
+    const plant = analysis.sourceEquipment.map((line): EquipmentInput => ({
+      ...line,
+      specifications: { source: SOURCE_PLANT_EQUIPMENT }
+    }))
+
+    return EstimateService.update(estimateId, userId, { equipment: [...kept, ...plant] })
+  }
+
+  // Run the engineering analysis and store it against the current estimate version
+  static async generate(
+    estimateId: string,
+    userId: string,
+    data: GenerateEngineeringReportInput = {}
+  ): Promise<EngineeringReportRecord | null> {
+    const analysis = await this.analyze(estimateId, userId, data)
+
+    if (!analysis) {
+      return null
+    }
+
+    return withTransaction(async (tx) => {
+      // Round-trip through JSON so nested results store as plain objects
+      const json = (value: unknown) => JSON.parse(JSON.stringify(value))
+
+      const report = await tx.engineeringReport.create({
+        data: {
+          estimateId,
+          estimateVersion: analysis.estimateVersion,
+          inputs: json(analysis.inputs),
+          summary: json(analysis.summary),
+          systems: json(analysis.systems),
+          valveAlarmLayout: json(analysis.valveAlarmLayout),
+          compliance: json(analysis.compliance),
+          recommendations: analysis.recommendations,
+          createdBy: userId
+        }
+      })
+
+      // Log audit trail
+      await tx.auditLog.create({
+        data: {
+          userId,
+          action: 'generate_engineering_report',
+          entityType: 'estimate',
+          entityId: estimateId,
+          newValues: {
+            reportId: report.id,
+            totalSystemCost: analysis.summary.totalSystemCost,
+            complianceScore: analysis.summary.complianceScore
+          },
+          metadata: { version: analysis.estimateVersion }
+        }
+      })
+
+      return toRecord(report)
+    })
+  }
+
+  // List reports for an estimate, newest first
+  static async list(estimateId: string, userId: string): Promise<EngineeringReportRecord[] | null> {
+    const estimate = await prisma.estimate.findFirst({
+      where: { id: estimateId, userId },
+      select: { id: true }
+    })
+
+    if (!estimate) {
+      return null
+    }
+
+    const reports = await prisma.engineeringReport.findMany({
+      where: { estimateId },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return reports.map(toRecord)
+  }
+
+  // Get a single report, checking the user owns its estimate
+  static async getById(
+    estimateId: string,
+    reportId: string,
+    userId: string
+  ): Promise<EngineeringReportRecord | null> {
+    const report = await prisma.engineeringReport.findFirst({
+      where: { id: reportId, estimateId, estimate: { userId } }
+    })
+
+    return report ? toRecord(report) : null
+  }
+
+  // Compare two reports on the same estimate
+  static async compare(
+    estimateId: string,
+    fromId: string,
+    toId: string,
+    userId: string
+  ): Promise<EngineeringReportComparison | null> {
+    const [from, to] = await Promise.all([
+      this.getById(estimateId, fromId, userId),
+      this.getById(estimateId, toId, userId)
+    ])
+
+    if (!from || !to) {
+      return null
+    }
+
+    return compareEngineeringReports(from, to)
+  }
+}
@@ -1,6 +1,17 @@
-import { Prisma } from '@prisma/client'
+import { Prisma, PrismaClient } from '@prisma/client'
 import { prisma, withTransaction } from '../db'
 import { z } from 'zod'
+import { DEFAULT_RATES, RateTableRates } from '../pricing/rate-tables'
+import { RegionalCostFactor } from '../pricing/regional-index'
+import { CostSplit, PricedSplit, sumSplits } from '../pricing/labor-material'
+import { DEFAULT_ANNUAL_ESCALATION_RATE, EscalationInput, monthsBetween, parseConstructionTime } from '../pricing/escalation'
+import { MarkupEntry, MarkupStackSchema } from '../pricing/markups'
+import { CostCodeReport, PricingResult, RoomCostBreakdown, breakDownRoomCost, buildCostCodeReport, priceEquipment, priceEstimate, priceRoom } from '../pricing/engine'
+import { DEFAULT_ROOM_COST_CODE, isCostCode, resolveEquipmentCostCode } from '../pricing/cost-codes'
+import { RiskAnalysisInput, RiskAnalysisResult, RiskAnalysisSchema, runRiskAnalysis } from '../pricing/risk'
+import { RateTableService } from './rate-table-service'
+import { MarkupService } from './markup-service'
+import { RegionalCostService } from './regional-cost-service'
 
 // ===== VALIDATION SCHEMAS =====
 
@@ -14,17 +25,23 @@ export const RoomSchema = z.object({
   vacuumOutlets: z.number().int().min(0).default(0),
   co2Outlets: z.number().int().min(0).default(0),
   n2oOutlets: z.number().int().min(0).default(0),
+  wagdOutlets: z.number().int().min(0).default(0),
+  nitrogenOutlets: z.number().int().min(0).default(0),
+  instrumentAirOutlets: z.number().int().min(0).default(0),
+  argonOutlets: z.number().int().min(0).default(0),
   pressureRequirement: z.string().optional(),
   backupRequired: z.boolean().default(false),
   specialRequirements: z.string().optional(),
   nfpaCompliance: z.array(z.string()).default([]),
   flowRateRequirements: z.record(z.number()).optional(),
+  costCode: z.string().refine(isCostCode, 'Unknown cost code').default(DEFAULT_ROOM_COST_CODE),
   estimatedCost: z.number().min(0)
 })
 
 export const EquipmentSchema = z.object({
   name: z.string().min(1, 'Equipment name is required'),
   category: z.string().min(1, 'Category is required'),
+  costCode: z.string().refine(isCostCode, 'Unknown cost code').optional(), // defaults from category
   manufacturer: z.string().optional(),
   model: z.string().optional(),
   quantity: z.number().int().positive('Quantity must be positive'),
@@ -39,6 +56,14 @@ export const EquipmentSchema = z.object({
   specifications: z.record(z.any()).optional()
 })
 
+export const AlternateSchema = z.object({
+  name: z.string().min(1, 'Alternate name is required'),
+  type: z.enum(['ADD', 'DEDUCT']),
+  description: z.string().optional(),
+  rooms: z.array(RoomSchema.omit({ estimatedCost: true })).default([]),
+  equipment: z.array(EquipmentSchema).default([])
+})
+
 export const CreateEstimateSchema = z.object({
   projectName: z.string().min(1, 'Project name is required'),
   clientName: z.string().optional(),
@@ -48,8 +73,15 @@ export const CreateEstimateSchema = z.object({
   squareFootage: z.number().int().positive().optional(),
   numberOfRooms: z.number().int().positive().optional(),
   templateId: z.string().optional(),
+  constructionStartDate: z.coerce.date().optional(),
+  constructionDuration: z.number().int().positive('Construction duration must be positive').optional(), // months
+  escalationRate: z.number().min(0).max(0.5, 'Escalation rate is an annual fraction, e.g. 0.04').optional(),
+  pricingDate: z.coerce.date().optional(), // defaults to the day the estimate is created
+  clientProjectId: z.string().optional(),
+  markupStack: MarkupStackSchema.optional(), // defaults to the template's, then the org's
   rooms: z.array(RoomSchema).default([]),
-  equipment: z.array(EquipmentSchema).default([])
+  equipment: z.array(EquipmentSchema).default([]),
+  alternates: z.array(AlternateSchema).default([])
 })
 
 export const UpdateEstimateSchema = CreateEstimateSchema.partial()
@@ -60,6 +92,7 @@ export type CreateEstimateInput = z.infer<typeof CreateEstimateSchema>
 export type UpdateEstimateInput = z.infer<typeof UpdateEstimateSchema>
 export type RoomInput = z.infer<typeof RoomSchema>
 export type EquipmentInput = z.infer<typeof EquipmentSchema>
+export type AlternateInput = z.infer<typeof AlternateSchema>
 
 export interface EstimateWithDetails {
   id: string
@@ -70,26 +103,46 @@ export interface EstimateWithDetails {
   totalCost: number
   status: string
   version: number
+  rateTableId: string | null
   createdAt: Date
   updatedAt: Date
   rooms: Array<{
     id: string
     name: string
     type: string
+    costCode: string
     area: number
     oxygenOutlets: number
     airOutlets: number
     vacuumOutlets: number
     estimatedCost: number
+    costBreakdown: RoomCostBreakdown | null
+    laborHours: number
+    laborCost: number
+    materialCost: number
   }>
   equipment: Array<{
     id: string
     name: string
     category: string
+    costCode: string
     quantity: number
     unitCost: number
     totalCost: number
+    laborHours: number
+    laborCost: number
+    materialCost: number
   }>
+  alternates: Array<{
+    id: string
+    number: number
+    name: string
+    type: 'ADD' | 'DEDUCT'
+    description: string | null
+    rooms: AlternateInput['rooms']
+    equipment: AlternateInput['equipment']
+  }>
+  costSplit: CostSplit
   user: {
     id: string
     name: string
@@ -99,67 +152,140 @@ export interface EstimateWithDetails {
 
 // ===== COST CALCULATION UTILITIES =====
 
-export function calculateRoomCost(room: RoomInput): number {
-  const outletCosts = {
-    oxygen: room.oxygenOutlets * 1500,
-    air: room.airOutlets * 1200,
-    vacuum: room.vacuumOutlets * 1400,
-    co2: room.co2Outlets * 1300,
-    n2o: room.n2oOutlets * 1350
-  }
+export function calculateRoomCostSplit(room: RoomInput, rates: RateTableRates = DEFAULT_RATES): PricedSplit {
+  return priceRoom(room, rates)
+}
 
-  const totalOutletCost = Object.values(outletCosts).reduce((sum, cost) => sum + cost, 0)
-  const pipingCost = room.area * 30 // $30 per square foot for piping
-
-  // Apply complexity multiplier based on room type
-  const complexityMultipliers: Record<string, number> = {
-    'operating_room': 1.5,
-    'icu': 1.3,
-    'emergency_room': 1.4,
-    'recovery_room': 1.1,
-    'patient_room': 1.0,
-    'support_room': 0.8
-  }
+export function calculateRoomCost(room: RoomInput, rates: RateTableRates = DEFAULT_RATES): number {
+  return calculateRoomCostSplit(room, rates).total
+}
 
-  const multiplier = complexityMultipliers[room.type.toLowerCase()] || 1.0
-  return (totalOutletCost + pipingCost) * multiplier
+export function calculateEquipmentCostSplit(equipment: EquipmentInput, rates: RateTableRates = DEFAULT_RATES): PricedSplit {
+  return priceEquipment(equipment, rates)
 }
 
 export function calculateEquipmentCost(equipment: EquipmentInput): number {
   return (equipment.quantity * equipment.unitCost) + equipment.installationCost
 }
 
-export function calculateTotalEstimateCost(
-  rooms: RoomInput[],
-  equipment: EquipmentInput[]
-): {
-  roomCosts: number
-  equipmentCosts: number
-  subtotal: number
-  complianceCost: number
-  contingencyCost: number
-  total: number
-} {
-  const roomCosts = rooms.reduce((sum, room) => sum + calculateRoomCost(room), 0)
-  const equipmentCosts = equipment.reduce((sum, item) => sum + calculateEquipmentCost(item), 0)
-  const subtotal = roomCosts + equipmentCosts
-
-  // Industry standard markups
-  const complianceCost = subtotal * 0.15 // 15% for compliance and regulatory
-  const contingencyCost = subtotal * 0.10 // 10% contingency
-
-  const total = subtotal + complianceCost + contingencyCost
+// Column values for a room row
+function roomSplitColumns(room: RoomInput, rates: RateTableRates) {
+  const { laborHours, laborCost, materialCost, total } = calculateRoomCostSplit(room, rates)
+  return {
+    laborHours,
+    laborCost,
+    materialCost,
+    estimatedCost: total,
+    costBreakdown: breakDownRoomCost(room, rates)
+  }
+}
 
+// Column values for an equipment row
+function equipmentSplitColumns(item: EquipmentInput, rates: RateTableRates) {
+  const { laborHours, laborCost, materialCost, total } = calculateEquipmentCostSplit(item, rates)
   return {
-    roomCosts,
-    equipmentCosts,
-    subtotal,
-    complianceCost,
-    contingencyCost,
-    total
+    laborHours,
+    laborCost,
+    materialCost,
+    totalCost: total,
+    costCode: resolveEquipmentCostCode(item.category, item.costCode)
   }
 }
 
+// Escalation inputs from the estimate, falling back to the client project's schedule
+// and then the template's construction time. Escalation always runs from the stored
+// pricing date so an unchanged estimate reprices to the same total.
+async function resolveEscalationInput(
+  tx: PrismaClient,
+  estimate: {
+    constructionStartDate?: Date | null
+    constructionDuration?: number | null
+    escalationRate?: unknown
+    pricingDate?: Date | null
+    clientProjectId?: string | null
+    templateId?: string | null
+  }
+): Promise<EscalationInput | null> {
+  let startDate = estimate.constructionStartDate ?? null
+  let durationMonths = estimate.constructionDuration ?? null
+
+  if ((!startDate || !durationMonths) && estimate.clientProjectId) {
+    const project = await tx.clientProject.findUnique({
+      where: { id: estimate.clientProjectId },
+      select: { requestedStartDate: true, actualStartDate: true, estimatedDuration: true, dueDate: true }
+    })
+    const projectStart = project?.actualStartDate ?? project?.requestedStartDate ?? null
+    startDate = startDate ?? projectStart
+
+    if (!durationMonths && project) {
+      durationMonths = project.estimatedDuration ??
+        (projectStart && project.dueDate ? Math.max(0, monthsBetween(projectStart, project.dueDate)) : null)
+    }
+  }
+
+  if (!durationMonths && estimate.templateId) {
+    const template = await tx.template.findUnique({
+      where: { id: estimate.templateId },
+      select: { constructionTime: true }
+    })
+    durationMonths = parseConstructionTime(template?.constructionTime)
+  }
+
+  if (!durationMonths && !startDate) {
+    return null
+  }
+
+  return {
+    startDate,
+    durationMonths: durationMonths ?? 0,
+    annualRate: estimate.escalationRate != null ? Number(estimate.escalationRate) : DEFAULT_ANNUAL_ESCALATION_RATE,
+    pricingDate: estimate.pricingDate ?? undefined
+  }
+}
+
+function toAlternateDetails(alternate: {
+  id: string
+  number: number
+  name: string
+  type: 'ADD' | 'DEDUCT'
+  description: string | null
+  rooms: unknown
+  equipment: unknown
+}): EstimateWithDetails['alternates'][number] {
+  return {
+    id: alternate.id,
+    number: alternate.number,
+    name: alternate.name,
+    type: alternate.type,
+    description: alternate.description,
+    rooms: alternate.rooms as AlternateInput['rooms'],
+    equipment: alternate.equipment as AlternateInput['equipment']
+  }
+}
+
+// Sum the persisted labor/material columns of room and equipment rows
+function summarizeCostSplit(rows: Array<{ laborHours: unknown; laborCost: unknown; materialCost: unknown }>): CostSplit {
+  return sumSplits(rows.map(row => ({
+    laborHours: Number(row.laborHours),
+    laborCost: Number(row.laborCost),
+    materialCost: Number(row.materialCost)
+  })))
+}
+
+export function calculateTotalEstimateCost(
+  rooms: RoomInput[],
+  equipment: EquipmentInput[],
+  options: {
+    rates?: RateTableRates
+    region?: RegionalCostFactor
+    escalation?: EscalationInput | null
+    markupStack?: MarkupEntry[]
+    alternates?: AlternateInput[]
+  } = {}
+): PricingResult {
+  return priceEstimate(rooms, equipment, options)
+}
+
 // ===== DATABASE OPERATIONS =====
 
 export class EstimateService {
@@ -170,8 +296,21 @@ export class EstimateService {
     const validatedData = CreateEstimateSchema.parse(data)
 
     return withTransaction(async (tx) => {
+      // Price against the rate table in effect today
+      const { rateTableId, rates } = await RateTableService.resolveRates({ asOf: new Date() }, tx)
+      const region = await RegionalCostService.resolve(validatedData.location, tx)
+      const pricingDate = validatedData.pricingDate ?? new Date()
+      const escalation = await resolveEscalationInput(tx, { ...validatedData, pricingDate })
+      const markupStack = await MarkupService.resolveStack(validatedData, tx)
+
       // Calculate costs
-      const costs = calculateTotalEstimateCost(validatedData.rooms, validatedData.equipment)
+      const costs = calculateTotalEstimateCost(validatedData.rooms, validatedData.equipment, {
+        rates,
+        region,
+        escalation,
+        markupStack,
+        alternates: validatedData.alternates
+      })
 
       // Create estimate
       const estimate = await tx.estimate.create({
@@ -185,6 +324,13 @@ export class EstimateService {
           squareFootage: validatedData.squareFootage,
           numberOfRooms: validatedData.numberOfRooms,
           templateId: validatedData.templateId,
+          constructionStartDate: validatedData.constructionStartDate,
+          constructionDuration: validatedData.constructionDuration,
+          escalationRate: validatedData.escalationRate,
+          pricingDate,
+          clientProjectId: validatedData.clientProjectId,
+          rateTableId,
+          markupStack,
           totalCost: costs.total,
           costBreakdown: costs,
           status: 'DRAFT'
@@ -203,7 +349,7 @@ export class EstimateService {
             data: {
               estimateId: estimate.id,
               ...room,
-              estimatedCost: calculateRoomCost(room)
+              ...roomSplitColumns(room, rates)
             }
           })
         )
@@ -216,7 +362,20 @@ export class EstimateService {
             data: {
               estimateId: estimate.id,
               ...item,
-              totalCost: calculateEquipmentCost(item)
+              ...equipmentSplitColumns(item, rates)
+            }
+          })
+        )
+      )
+
+      // Create alternates
+      const alternates = await Promise.all(
+        validatedData.alternates.map((alternate, index) =>
+          tx.alternate.create({
+            data: {
+              estimateId: estimate.id,
+              number: index + 1,
+              ...alternate
             }
           })
         )
@@ -230,7 +389,8 @@ export class EstimateService {
           data: {
             estimate,
             rooms,
-            equipment
+            equipment,
+            alternates
           },
           changeLog: 'Initial version',
           createdBy: userId
@@ -255,13 +415,22 @@ export class EstimateService {
         rooms: rooms.map(r => ({
           ...r,
           area: Number(r.area),
-          estimatedCost: Number(r.estimatedCost)
+          estimatedCost: Number(r.estimatedCost),
+          costBreakdown: r.costBreakdown as RoomCostBreakdown | null,
+          laborHours: Number(r.laborHours),
+          laborCost: Number(r.laborCost),
+          materialCost: Number(r.materialCost)
         })),
         equipment: equipment.map(e => ({
           ...e,
           unitCost: Number(e.unitCost),
-          totalCost: Number(e.totalCost)
-        }))
+          totalCost: Number(e.totalCost),
+          laborHours: Number(e.laborHours),
+          laborCost: Number(e.laborCost),
+          materialCost: Number(e.materialCost)
+        })),
+        alternates: alternates.map(toAlternateDetails),
+        costSplit: summarizeCostSplit([...rooms, ...equipment])
       }
     })
   }
@@ -282,6 +451,9 @@ export class EstimateService {
         },
         equipment: {
           orderBy: { createdAt: 'asc' }
+        },
+        alternates: {
+          orderBy: { number: 'asc' }
         }
       }
     })
@@ -294,13 +466,22 @@ export class EstimateService {
       rooms: estimate.rooms.map(r => ({
         ...r,
         area: Number(r.area),
-        estimatedCost: Number(r.estimatedCost)
+        estimatedCost: Number(r.estimatedCost),
+        costBreakdown: r.costBreakdown as RoomCostBreakdown | null,
+        laborHours: Number(r.laborHours),
+        laborCost: Number(r.laborCost),
+        materialCost: Number(r.materialCost)
       })),
       equipment: estimate.equipment.map(e => ({
         ...e,
         unitCost: Number(e.unitCost),
-        totalCost: Number(e.totalCost)
-      }))
+        totalCost: Number(e.totalCost),
+        laborHours: Number(e.laborHours),
+        laborCost: Number(e.laborCost),
+        materialCost: Number(e.materialCost)
+      })),
+      alternates: estimate.alternates.map(toAlternateDetails),
+      costSplit: summarizeCostSplit([...estimate.rooms, ...estimate.equipment])
     }
   }
 
@@ -348,6 +529,9 @@ export class EstimateService {
           },
           equipment: {
             orderBy: { createdAt: 'asc' }
+          },
+          alternates: {
+            orderBy: { number: 'asc' }
           }
         },
         orderBy: { updatedAt: 'desc' },
@@ -364,13 +548,22 @@ export class EstimateService {
         rooms: estimate.rooms.map(r => ({
           ...r,
           area: Number(r.area),
-          estimatedCost: Number(r.estimatedCost)
+          estimatedCost: Number(r.estimatedCost),
+          costBreakdown: r.costBreakdown as RoomCostBreakdown | null,
+          laborHours: Number(r.laborHours),
+          laborCost: Number(r.laborCost),
+          materialCost: Number(r.materialCost)
         })),
         equipment: estimate.equipment.map(e => ({
           ...e,
           unitCost: Number(e.unitCost),
-          totalCost: Number(e.totalCost)
-        }))
+          totalCost: Number(e.totalCost),
+          laborHours: Number(e.laborHours),
+          laborCost: Number(e.laborCost),
+          materialCost: Number(e.materialCost)
+        })),
+        alternates: estimate.alternates.map(toAlternateDetails),
+        costSplit: summarizeCostSplit([...estimate.rooms, ...estimate.equipment])
       })),
       total,
       page,
@@ -392,30 +585,60 @@ export class EstimateService {
       // Get current estimate
       const currentEstimate = await tx.estimate.findFirst({
         where: { id, userId },
-        include: { rooms: true, equipment: true }
+        include: { rooms: true, equipment: true, alternates: { orderBy: { number: 'asc' } } }
       })
 
       if (!currentEstimate) {
         throw new Error('Estimate not found')
       }
 
-      // Calculate new costs if rooms or equipment changed
-      let totalCost = Number(currentEstimate.totalCost)
-      let costBreakdown = currentEstimate.costBreakdown
+      // Keep pricing against the rate table the estimate was created under
+      const { rateTableId, rates } = await RateTableService.resolveRates({
+        rateTableId: currentEstimate.rateTableId,
+        asOf: currentEstimate.createdAt
+      }, tx)
+
+      // Recalculate costs, escalating from the stored pricing date to the construction midpoint
+      const rooms = validatedData.rooms ||
+        currentEstimate.rooms.map(r => ({ ...r, area: Number(r.area) }) as RoomInput)
+      const equipment = validatedData.equipment ||
+        currentEstimate.equipment.map(e => ({
+          ...e,
+          unitCost: Number(e.unitCost),
+          installationCost: Number(e.installationCost)
+        }) as EquipmentInput)
+      const alternates = validatedData.alternates ||
+        currentEstimate.alternates.map(a => toAlternateDetails(a) as AlternateInput)
+      const location = validatedData.location !== undefined ? validatedData.location : currentEstimate.location
+      const region = await RegionalCostService.resolve(location, tx)
+      const escalation = await resolveEscalationInput(tx, { ...currentEstimate, ...validatedData })
+
+      // Keep the persisted stack so totals reproduce unless a new one is supplied
+      const markupStack = await MarkupService.resolveStack({
+        markupStack: validatedData.markupStack ?? (currentEstimate.markupStack as MarkupEntry[] | null),
+        templateId: currentEstimate.templateId
+      }, tx)
+
+      const costs = calculateTotalEstimateCost(rooms, equipment, {
+        rates,
+        region,
+        escalation,
+        markupStack,
+        alternates
+      })
+      const totalCost = costs.total
+      const costBreakdown = costs
 
-      if (validatedData.rooms || validatedData.equipment) {
-        const rooms = validatedData.rooms || []
-        const equipment = validatedData.equipment || []
-        const costs = calculateTotalEstimateCost(rooms, equipment)
-        totalCost = costs.total
-        costBreakdown = costs
-      }
+      // Alternates live in their own table
+      const { alternates: alternateUpdates, ...estimateUpdates } = validatedData
 
       // Update estimate
       const updatedEstimate = await tx.estimate.update({
         where: { id },
         data: {
-          ...validatedData,
+          ...estimateUpdates,
+          rateTableId,
+          markupStack,
           totalCost,
           costBreakdown,
           version: { increment: 1 }
@@ -439,7 +662,7 @@ export class EstimateService {
               data: {
                 estimateId: id,
                 ...room,
-                estimatedCost: calculateRoomCost(room)
+                ...roomSplitColumns(room, rates)
               }
             })
           )
@@ -458,7 +681,24 @@ export class EstimateService {
               data: {
                 estimateId: id,
                 ...item,
-                totalCost: calculateEquipmentCost(item)
+                ...equipmentSplitColumns(item, rates)
+              }
+            })
+          )
+        )
+      }
+
+      // Replace alternates if provided
+      if (alternateUpdates) {
+        await tx.alternate.deleteMany({ where: { estimateId: id } })
+
+        await Promise.all(
+          alternateUpdates.map((alternate, index) =>
+            tx.alternate.create({
+              data: {
+                estimateId: id,
+                number: index + 1,
+                ...alternate
               }
             })
           )
@@ -494,6 +734,83 @@ export class EstimateService {
     })
   }
 
+  // Estimate totals by CSI division and section
+  static async getCostCodeReport(id: string, userId: string): Promise<CostCodeReport | null> {
+    const estimate = await prisma.estimate.findFirst({
+      where: { id, userId },
+      include: { rooms: true, equipment: true }
+    })
+
+    if (!estimate) {
+      return null
+    }
+
+    const lines = [
+      ...estimate.rooms.map(room => ({
+        costCode: room.costCode,
+        description: room.name,
+        amount: Number(room.estimatedCost)
+      })),
+      ...estimate.equipment.map(item => ({
+        costCode: item.costCode,
+        description: item.name,
+        amount: Number(item.totalCost)
+      }))
+    ]
+
+    return buildCostCodeReport(lines, {
+      ...(estimate.costBreakdown as Partial<PricingResult> | null),
+      total: Number(estimate.totalCost)
+    } as PricingResult)
+  }
+
+  // Monte Carlo risk analysis on the estimate as currently priced
+  static async analyzeRisk(
+    id: string,
+    userId: string,
+    data: Partial<RiskAnalysisInput>
+  ): Promise<RiskAnalysisResult | null> {
+    // Validate input
+    const settings = RiskAnalysisSchema.parse(data)
+
+    const estimate = await prisma.estimate.findFirst({
+      where: { id, userId },
+      include: { rooms: true, equipment: true }
+    })
+
+    if (!estimate) {
+      return null
+    }
+
+    const { rates } = await RateTableService.resolveRates({
+      rateTableId: estimate.rateTableId,
+      asOf: estimate.createdAt
+    })
+    const region = await RegionalCostService.resolve(estimate.location)
+    const escalation = await resolveEscalationInput(prisma, estimate)
+    const markupStack = await MarkupService.resolveStack({
+      markupStack: estimate.markupStack as MarkupEntry[] | null,
+      templateId: estimate.templateId
+    })
+
+    const rooms = estimate.rooms.map(room => ({
+      id: room.id,
+      label: room.name,
+      split: calculateRoomCostSplit({ ...room, area: Number(room.area) } as RoomInput, rates)
+    }))
+    const equipment = estimate.equipment.map(item => ({
+      id: item.id,
+      label: item.name,
+      split: calculateEquipmentCostSplit({
+        ...item,
+        unitCost: Number(item.unitCost),
+        installationCost: Number(item.installationCost)
+      } as EquipmentInput, rates)
+    }))
+
+    return runRiskAnalysis(rooms, equipment, { region, escalation, markupStack }, settings)
+  }
+
   // Delete estimate
   static async delete(id: string, userId: string): Promise<boolean> {
     return withTransaction(async (tx) => {
@@ -0,0 +1,81 @@
+import { PrismaClient } from '@prisma/client'
+import { prisma, withTransaction } from '../db'
+import { DEFAULT_MARKUP_STACK, MarkupEntry, MarkupStackSchema } from '../pricing/markups'
+
+// SystemConfig key holding the organization's default markup stack (JSON)
+export const ORG_MARKUP_STACK_KEY = 'pricing.markup_stack'
+
+// ===== DATABASE OPERATIONS =====
+
+export class MarkupService {
+
+  // Get the organization default stack, falling back to the built-in one
+  static async getOrgDefault(client: PrismaClient = prisma): Promise<MarkupEntry[]> {
+    const config = await client.systemConfig.findUnique({
+      where: { key: ORG_MARKUP_STACK_KEY }
+    })
+
+    if (!config) {
+      return DEFAULT_MARKUP_STACK
+    }
+
+    const parsed = MarkupStackSchema.safeParse(JSON.parse(config.value))
+    return parsed.success ? parsed.data : DEFAULT_MARKUP_STACK
+  }
+
+  // Replace the organization default stack
+  static async setOrgDefault(userId: string, stack: MarkupEntry[]): Promise<MarkupEntry[]> {
+    // Validate input
+    const validatedStack = MarkupStackSchema.parse(stack)
+
+    return withTransaction(async (tx) => {
+      const config = await tx.systemConfig.upsert({
+        where: { key: ORG_MARKUP_STACK_KEY },
+        create: {
+          key: ORG_MARKUP_STACK_KEY,
+          value: JSON.stringify(validatedStack),
+          description: 'Default markup stack for new estimates',
+          category: 'pricing'
+        },
+        update: { value: JSON.stringify(validatedStack) }
+      })
+
+      // Log audit trail
+      await tx.auditLog.create({
+        data: {
+          userId,
+          action: 'update',
+          entityType: 'system_config',
+          entityId: config.id,
+          newValues: { [ORG_MARKUP_STACK_KEY]: validatedStack }
+        }
+      })
+
+      return validatedStack
+    })
+  }
+
+  // Resolve the stack for an estimate: explicit stack, then the template's,
+  // then the organization default
+  static async resolveStack(
+    options: { markupStack?: MarkupEntry[] | null; templateId?: string | null } = {},
+    client: PrismaClient = prisma
+  ): Promise<MarkupEntry[]> {
+    if (options.markupStack) {
+      return MarkupStackSchema.parse(options.markupStack)
+    }
+
+    if (options.templateId) {
+      const template = await client.template.findUnique({
+        where: { id: options.templateId },
+        select: { markupStack: true }
+      })
+      const parsed = MarkupStackSchema.safeParse(template?.markupStack)
+      if (parsed.success) {
+        return parsed.data
+      }
+    }
+
+    return this.getOrgDefault(client)
+  }
+}
@@ -0,0 +1,197 @@
+import { PrismaClient } from '@prisma/client'
+import { prisma, withTransaction } from '../db'
+import { z } from 'zod'
+import { DEFAULT_RATES, RateTableRates, RateTableRatesSchema } from '../pricing/rate-tables'
+
+// ===== VALIDATION SCHEMAS =====
+
+export const CreateRateTableSchema = z.object({
+  name: z.string().min(1, 'Rate table name is required'),
+  effectiveFrom: z.coerce.date(),
+  notes: z.string().optional(),
+  rates: RateTableRatesSchema
+})
+
+export const UpdateRateTableSchema = CreateRateTableSchema.partial()
+
+// ===== TYPES =====
+
+export type CreateRateTableInput = z.infer<typeof CreateRateTableSchema>
+export type UpdateRateTableInput = z.infer<typeof UpdateRateTableSchema>
+
+export interface RateTableRecord {
+  id: string
+  name: string
+  version: number
+  effectiveFrom: Date
+  notes: string | null
+  rates: RateTableRates
+  createdBy: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface ResolvedRates {
+  rateTableId: string | null
+  rates: RateTableRates
+}
+
+function toRecord(rateTable: {
+  id: string
+  name: string
+  version: number
+  effectiveFrom: Date
+  notes: string | null
+  rates: unknown
+  createdBy: string
+  createdAt: Date
+  updatedAt: Date
+}): RateTableRecord {
+  return {
+    ...rateTable,
+    rates: RateTableRatesSchema.parse(rateTable.rates)
+  }
+}
+
+// ===== DATABASE OPERATIONS =====
+
+export class RateTableService {
+
+  // Get the rate table in effect on a given date
+  static async getEffective(
+    asOf: Date = new Date(),
+    client: PrismaClient = prisma
+  ): Promise<RateTableRecord | null> {
+    const rateTable = await client.rateTable.findFirst({
+      where: { effectiveFrom: { lte: asOf } },
+      orderBy: [{ effectiveFrom: 'desc' }, { version: 'desc' }]
+    })
+
+    return rateTable ? toRecord(rateTable) : null
+  }
+
+  // Resolve the rates to price an estimate with. A pinned rate table wins;
+  // otherwise the table effective on `asOf`; otherwise the built-in defaults.
+  static async resolveRates(
+    options: { rateTableId?: string | null; asOf?: Date } = {},
+    client: PrismaClient = prisma
+  ): Promise<ResolvedRates> {
+    if (options.rateTableId) {
+      const pinned = await client.rateTable.findUnique({
+        where: { id: options.rateTableId }
+      })
+      if (pinned) {
+        return { rateTableId: pinned.id, rates: RateTableRatesSchema.parse(pinned.rates) }
+      }
+    }
+
+    const effective = await this.getEffective(options.asOf, client)
+    if (effective) {
+      return { rateTableId: effective.id, rates: effective.rates }
+    }
+
+    return { rateTableId: null, rates: DEFAULT_RATES }
+  }
+
+  // Get rate table by ID
+  static async getById(id: string): Promise<RateTableRecord | null> {
+    const rateTable = await prisma.rateTable.findUnique({ where: { id } })
+    return rateTable ? toRecord(rateTable) : null
+  }
+
+  // List all rate table versions, newest first
+  static async list(): Promise<RateTableRecord[]> {
+    const rateTables = await prisma.rateTable.findMany({
+      orderBy: { version: 'desc' }
+    })
+
+    return rateTables.map(toRecord)
+  }
+
+  // Publish a new rate table version
+  static async create(userId: string, data: CreateRateTableInput): Promise<RateTableRecord> {
+    // Validate input
+    const validatedData = CreateRateTableSchema.parse(data)
+
+    return withTransaction(async (tx) => {
+      const latest = await tx.rateTable.findFirst({
+        orderBy: { version: 'desc' },
+        select: { version: true }
+      })
+
+      const rateTable = await tx.rateTable.create({
+        data: {
+          name: validatedData.name,
+          version: (latest?.version ?? 0) + 1,
+          effectiveFrom: validatedData.effectiveFrom,
+          notes: validatedData.notes,
+          rates: validatedData.rates,
+          createdBy: userId
+        }
+      })
+
+      // Log audit trail
+      await tx.auditLog.create({
+        data: {
+          userId,
+          action: 'create',
+          entityType: 'rate_table',
+          entityId: rateTable.id,
+          newValues: { version: rateTable.version, effectiveFrom: rateTable.effectiveFrom.toISOString() }
+        }
+      })
+
+      return toRecord(rateTable)
+    })
+  }
+
+  // Edit a rate table that has not taken effect yet. Tables already in
+  // effect are immutable so existing estimates keep their pricing basis.
+  static async update(
+    id: string,
+    userId: string,
+    data: UpdateRateTableInput
+  ): Promise<RateTableRecord> {
+    // Validate input
+    const validatedData = UpdateRateTableSchema.parse(data)
+
+    return withTransaction(async (tx) => {
+      const current = await tx.rateTable.findUnique({
+        where: { id },
+        include: { _count: { select: { estimates: true } } }
+      })
+
+      if (!current) {
+        throw new Error('Rate table not found')
+      }
+
+      if (current.effectiveFrom <= new Date() || current._count.estimates > 0) {
+        throw new Error('Rate table is already in effect; publish a new version instead')
+      }
+
+      // Backdating would reprice estimates already tied to the earlier period
+      if (validatedData.effectiveFrom && validatedData.effectiveFrom <= new Date()) {
+        throw new Error('Effective date must be in the future; publish a new version instead')
+      }
+
+      const rateTable = await tx.rateTable.update({
+        where: { id },
+        data: validatedData
+      })
+
+      // Log audit trail
+      await tx.auditLog.create({
+        data: {
+          userId,
+          action: 'update',
+          entityType: 'rate_table',
+          entityId: id,
+          oldValues: { rates: current.rates, effectiveFrom: current.effectiveFrom.toISOString() },
+          newValues: { rates: rateTable.rates, effectiveFrom: rateTable.effectiveFrom.toISOString() }
+        }
+      })
+
+      return toRecord(rateTable)
+    })
+  }
+}
@@ -0,0 +1,143 @@
+import { PrismaClient } from '@prisma/client'
+import { prisma, withTransaction } from '../db'
+import { z } from 'zod'
+import { NATIONAL_AVERAGE, RegionalCostFactor, matchRegionalFactor, parseLocation } from '../pricing/regional-index'
+
+// ===== VALIDATION SCHEMAS =====
+
+export const RegionalCostIndexSchema = z.object({
+  label: z.string().min(1, 'Label is required'),
+  city: z.string().optional(),
+  state: z.string().length(2, 'State must be a two-letter code').transform(s => s.toUpperCase()),
+  zipPrefix: z.string().regex(/^\d{3}$/, 'ZIP prefix must be three digits').optional(),
+  laborFactor: z.number().positive('Labor factor must be positive'),
+  materialFactor: z.number().positive('Material factor must be positive'),
+  source: z.string().optional()
+})
+
+export const UpdateRegionalCostIndexSchema = RegionalCostIndexSchema.partial()
+
+// ===== TYPES =====
+
+export type RegionalCostIndexInput = z.infer<typeof RegionalCostIndexSchema>
+export type UpdateRegionalCostIndexInput = z.infer<typeof UpdateRegionalCostIndexSchema>
+
+function toFactor(index: {
+  id: string
+  label: string
+  city: string | null
+  state: string
+  zipPrefix: string | null
+  laborFactor: unknown
+  materialFactor: unknown
+}): RegionalCostFactor {
+  return {
+    id: index.id,
+    label: index.label,
+    city: index.city,
+    state: index.state,
+    zipPrefix: index.zipPrefix,
+    laborFactor: Number(index.laborFactor),
+    materialFactor: Number(index.materialFactor)
+  }
+}
+
+// ===== DATABASE OPERATIONS =====
+
+export class RegionalCostService {
+
+  // Resolve the cost factor for a free-text estimate location
+  static async resolve(
+    location: string | null | undefined,
+    client: PrismaClient = prisma
+  ): Promise<RegionalCostFactor> {
+    const parsed = parseLocation(location)
+    if (!parsed.zip && !parsed.state) {
+      return NATIONAL_AVERAGE
+    }
+
+    const candidates = await client.regionalCostIndex.findMany({
+      where: {
+        OR: [
+          ...(parsed.zip ? [{ zipPrefix: parsed.zip.substring(0, 3) }] : []),
+          ...(parsed.state ? [{ state: parsed.state }] : [])
+        ]
+      }
+    })
+
+    return matchRegionalFactor(location, candidates.map(toFactor)) ?? NATIONAL_AVERAGE
+  }
+
+  // List all regional indexes
+  static async list(state?: string): Promise<RegionalCostFactor[]> {
+    const indexes = await prisma.regionalCostIndex.findMany({
+      where: state ? { state: state.toUpperCase() } : undefined,
+      orderBy: [{ state: 'asc' }, { label: 'asc' }]
+    })
+
+    return indexes.map(toFactor)
+  }
+
+  // Add a regional index
+  static async create(userId: string, data: RegionalCostIndexInput): Promise<RegionalCostFactor> {
+    // Validate input
+    const validatedData = RegionalCostIndexSchema.parse(data)
+
+    return withTransaction(async (tx) => {
+      const index = await tx.regionalCostIndex.create({ data: validatedData })
+
+      // Log audit trail
+      await tx.auditLog.create({
+        data: {
+          userId,
+          action: 'create',
+          entityType: 'regional_cost_index',
+          entityId: index.id,
+          newValues: validatedData
+        }
+      })
+
+      return toFactor(index)
+    })
+  }
+
+  // Update a regional index
+  static async update(
+    id: string,
+    userId: string,
+    data: UpdateRegionalCostIndexInput
+  ): Promise<RegionalCostFactor> {
+    // Validate input
+    const validatedData = UpdateRegionalCostIndexSchema.parse(data)
+
+    return withTransaction(async (tx) => {
+      const current = await tx.regionalCostIndex.findUnique({ where: { id } })
+
+      if (!current) {
+        throw new Error('Regional cost index not found')
+      }
+
+      const index = await tx.regionalCostIndex.update({
+        where: { id },
+        data: validatedData
+      })
+
+      // Log audit trail
+      await tx.auditLog.create({
+        data: {
+          userId,
+          action: 'update',
+          entityType: 'regional_cost_index',
+          entityId: id,
+          oldValues: {
+            laborFactor: Number(current.laborFactor),
+            materialFactor: Number(current.materialFactor)
+          },
+          newValues: validatedData
+        }
+      })
+
+      return toFactor(index)
+    })
+  }
+}
@@ -0,0 +1,129 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildRoomGasRequirements, withRoomGasDefaults } from '../estimateGasAdapter';
+import { medicalGasEngineering } from '../medicalGasEngineering';
+import {
+  convertReport,
+  convertSystem,
+  fromSI,
+  networkFromSI,
+  parseUnitSystem,
+  roomsFromSI,
+  toSI
+} from '../engineeringUnits';
+
+const close = (actual: number, expected: number, tolerance = 1e-3) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `expected ${expected}, got ${actual}`);
+
+const rooms = buildRoomGasRequirements([
+  { id: 'icu-1', name: 'ICU 1', type: 'icu', area: 300, oxygenOutlets: 2, airOutlets: 1, vacuumOutlets: 2 }
+]);
+
+describe('toSI / fromSI', () => {
+  it('converts reference values', () => {
+    close(toSI(1, 'flow'), 28.3168);
+    close(toSI(50, 'pressure'), 344.738);
+    close(toSI(19, 'vacuum'), 64.341);
+    close(toSI(1, 'diameter'), 25.4);
+    close(toSI(100, 'length'), 30.48);
+    close(toSI(25, 'velocity'), 7.62);
+    close(toSI(68, 'temperature'), 20);
+    close(toSI(1, 'area'), 0.0929);
+  });
+
+  it('round-trips every quantity', () => {
+    for (const quantity of ['flow', 'pressure', 'vacuum', 'diameter', 'length', 'velocity', 'area', 'density', 'temperature'] as const) {
+      close(fromSI(toSI(42.5, quantity), quantity), 42.5, 1e-9);
+    }
+  });
+});
+
+describe('parseUnitSystem', () => {
+  it('defaults to imperial and rejects unknown systems', () => {
+    assert.equal(parseUnitSystem(null), 'imperial');
+    assert.equal(parseUnitSystem('si'), 'si');
+    assert.equal(parseUnitSystem('metric'), null);
+  });
+});
+
+describe('SI inputs', () => {
+  it('converts room outlets, treating vacuum pressure as kPa below atmosphere', () => {
+    const [room] = roomsFromSI([{
+      ...rooms[0],
+      area: 27.87,
+      ceilingHeight: 2.7432,
+      outlets: rooms[0].outlets.map(outlet => ({
+        ...outlet,
+        flowRate: 28.316846592,
+        pressure: outlet.type === 'vacuum' ? 64.341 : 344.738,
+        location: { ...outlet.location, heightFromFloor: 1524 }
+      }))
+    }]);
+
+    close(room.area, 300, 0.05);
+    close(room.ceilingHeight!, 9);
+    const oxygen = room.outlets.find(outlet => outlet.type === 'oxygen')!;
+    const vacuum = room.outlets.find(outlet => outlet.type === 'vacuum')!;
+    close(oxygen.flowRate, 1);
+    close(oxygen.pressure!, 50);
+    close(vacuum.pressure!, 19);
+    close(oxygen.location.heightFromFloor!, 60);
+  });
+
+  it('defaults omitted fields in imperial units after conversion', () => {
+    const [room] = withRoomGasDefaults(roomsFromSI([{
+      ...rooms[0],
+      area: 27.87,
+      ceilingHeight: undefined,
+      outlets: rooms[0].outlets.map(outlet => ({
+        ...outlet,
+        flowRate: 28.316846592,
+        pressure: undefined,
+        location: { ...outlet.location, heightFromFloor: undefined }
+      }))
+    }]));
+
+    // ICU defaults: 9 ft ceiling, 60" headwall outlets, 50 psig gases and 15 inHg vacuum
+    close(room.ceilingHeight, 9);
+    const oxygen = room.outlets.find(outlet => outlet.type === 'oxygen')!;
+    const vacuum = room.outlets.find(outlet => outlet.type === 'vacuum')!;
+    close(oxygen.pressure, 50);
+    close(vacuum.pressure, 15);
+    close(oxygen.location.heightFromFloor, 60);
+  });
+
+  it('converts segment lengths and outlet flows', () => {
+    const network = networkFromSI({
+      material: 'copper',
+      segments: [{ id: 'main', parentId: null, length: 30.48, fittings: [], outlets: [{ roomId: 'icu-1', quantity: 1, flowRate: 28.316846592 }] }]
+    });
+
+    close(network.segments[0].length, 100);
+    close(network.segments[0].outlets[0].flowRate, 1);
+  });
+});
+
+describe('SI outputs', () => {
+  const oxygen = medicalGasEngineering.calculateSystemDemand(rooms).get('oxygen')!;
+
+  it('leaves imperial systems untouched', () => {
+    assert.equal(convertSystem(oxygen, 'imperial'), oxygen);
+  });
+
+  it('converts flows, pressures and pipe sizes', () => {
+    const si = convertSystem(oxygen, 'si');
+    close(si.peakDemand, oxygen.peakDemand * 28.316846592, 1e-9);
+    close(si.systemPressure.operatingPressure, toSI(oxygen.systemPressure.operatingPressure, 'pressure'), 1e-9);
+    si.distribution.mainLines.forEach((segment, index) => {
+      close(segment.diameter, oxygen.distribution.mainLines[index].diameter * 25.4, 1e-9);
+      close(segment.length, oxygen.distribution.mainLines[index].length * 0.3048, 1e-9);
+    });
+    assert.equal(si.estimatedCost, oxygen.estimatedCost);
+  });
+
+  it('labels the unit system on converted reports', () => {
+    const report = convertReport({ systems: { oxygen } }, 'si');
+    assert.equal(report.units.flow, 'L/min');
+    assert.equal(report.units.vacuum, 'kPa');
+  });
+});
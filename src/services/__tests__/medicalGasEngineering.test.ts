@@ -0,0 +1,464 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AreaType } from '../gasDemandTables';
+import { getLineConditions, type LineConditions } from '../gasProperties';
+import {
+  medicalGasEngineering,
+  type PipingNetwork,
+  type PipingSegment,
+  type RoomGasRequirements,
+  type SegmentOutletLoad
+} from '../medicalGasEngineering';
+import type { PipingTakeoff } from '../pipingTakeoff';
+
+const within = (actual: number, expected: number, relative: number) =>
+  assert.ok(
+    Math.abs(actual - expected) <= Math.abs(expected) * relative,
+    `expected ${expected} ±${relative * 100}%, got ${actual}`
+  );
+
+// Deterministic PRNG so property failures reproduce
+function random(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const between = (next: () => number, min: number, max: number) => min + (max - min) * next();
+
+// ===== REFERENCE CASES =====
+
+// Colebrook solutions as read from the Moody diagram; Swamee-Jain should land within 1.5%
+const FRICTION_CASES = [
+  { reynolds: 1e5, relativeRoughness: 1e-4, frictionFactor: 0.01851 },
+  { reynolds: 1e6, relativeRoughness: 1e-3, frictionFactor: 0.01994 },
+  { reynolds: 1e5, relativeRoughness: 1e-6, frictionFactor: 0.01800 },
+  { reynolds: 4e4, relativeRoughness: 5e-5, frictionFactor: 0.02213 },
+  { reynolds: 1e7, relativeRoughness: 1e-5, frictionFactor: 0.00900 }
+];
+
+// Water at 60°F in 2" commercial steel at 10 ft/s: 19.8 ft of head per 100 ft
+const WATER: LineConditions = {
+  ...getLineConditions('air', 0),
+  density: 62.37,
+  kinematicViscosity: 1.217e-5
+};
+
+// Published worked problems in inches, feet, ft/s, lb/ft³ and ft²/s; drops in psi
+const TEXTBOOK_CASES = [
+  {
+    // Çengel & Cimbala, Fluid Mechanics, ch. 8: water at 15°C (999.1 kg/m³, 1.138e-3 kg/m·s),
+    // 6 L/s through 60 m of 5 cm stainless steel (ε = 0.002 mm): ΔP = 96.3 kPa
+    name: 'water in stainless steel, SI (Çengel & Cimbala)',
+    diameter: 50 / 25.4,
+    length: 60 / 0.3048,
+    roughness: 0.002e-3 / 0.3048,
+    velocity: 0.006 / (Math.PI * 0.025 ** 2) / 0.3048,
+    density: 999.1 / 16.01846,
+    kinematicViscosity: 1.138e-3 / 999.1 / 0.09290304,
+    drop: 96.3 / 6.894757
+  },
+  {
+    // Çengel & Cimbala, Fluid Mechanics, ch. 8: water at 60°F (62.36 lb/ft³, 7.536e-4 lb/ft·s),
+    // 0.2 ft³/s through 200 ft of 2" stainless steel (ε = 0.000007 ft): ΔP = 1700 lbf/ft²
+    name: 'water in stainless steel, US (Çengel & Cimbala)',
+    diameter: 2,
+    length: 200,
+    roughness: 0.000007,
+    velocity: 0.2 / (Math.PI / 144),
+    density: 62.36,
+    kinematicViscosity: 7.536e-4 / 62.36,
+    drop: 1700 / 144
+  },
+  {
+    // White, Fluid Mechanics, ch. 6 Moody-chart example: oil (900 kg/m³, ν = 1e-5 m²/s),
+    // 0.2 m³/s through 500 m of 200 mm cast iron (ε = 0.26 mm): h_f = 117 m
+    name: 'oil in cast iron (White)',
+    diameter: 200 / 25.4,
+    length: 500 / 0.3048,
+    roughness: 0.26e-3 / 0.3048,
+    velocity: 0.2 / (Math.PI * 0.1 ** 2) / 0.3048,
+    density: 900 / 16.01846,
+    kinematicViscosity: 1e-5 / 0.09290304,
+    drop: 900 * 9.807 * 117 / 1000 / 6.894757
+  }
+];
+
+// Smallest Type L bore (ASTM B819: 1/2" 0.545, 3/4" 0.785, 1" 1.025, 1-1/4" 1.265,
+// 1-1/2" 1.505, 2" 1.985, 2-1/2" 2.465, 3" 2.945) within the velocity limit, 25 ft/s for
+// oxygen and 5000 ft/min for vacuum. Line flow is SCFM x (14.696 / line psia) x
+// (529.67 / 519.67) at 70°F: 40 SCFM of oxygen at 50 psig is 9.261 ACFM, 26.9 ft/s
+// through 1" and 17.7 ft/s through 1-1/4". Vacuum at 15 inHg is 7.329 psia.
+const SIZING_CASES = [
+  { gasType: 'oxygen', flowRate: 10, pressure: 50, diameter: 0.5, velocity: 23.819 },
+  { gasType: 'oxygen', flowRate: 40, pressure: 50, diameter: 1.25, velocity: 17.685 },
+  { gasType: 'oxygen', flowRate: 100, pressure: 50, diameter: 2, velocity: 17.956 }, // 31.2 ft/s through 1-1/2"
+  { gasType: 'oxygen', flowRate: 250, pressure: 50, diameter: 3, velocity: 20.393 }, // 29.1 ft/s through 2-1/2"
+  { gasType: 'vacuum', flowRate: 4, pressure: 15, diameter: 0.75, velocity: 40.54 }, // 84.1 ft/s through 1/2"
+  { gasType: 'vacuum', flowRate: 60, pressure: 15, diameter: 2.5, velocity: 61.672 } // 95.1 ft/s through 2"
+];
+
+const COPPER_ROUGHNESS = 0.000005; // ft
+
+describe('calculateFrictionFactor', () => {
+  for (const { reynolds, relativeRoughness, frictionFactor } of FRICTION_CASES) {
+    it(`Re ${reynolds.toExponential()} at ε/D ${relativeRoughness}`, () => {
+      // Diameter of 12 in makes ε/D equal to the roughness in feet
+      within(medicalGasEngineering.calculateFrictionFactor(reynolds, relativeRoughness, 12), frictionFactor, 0.015);
+    });
+  }
+});
+
+describe('calculatePressureDrop', () => {
+  it('matches the Darcy-Weisbach water reference', () => {
+    within(medicalGasEngineering.calculatePressureDrop(2, 100, 0.00015, 10, WATER), 8.567, 0.015);
+  });
+
+  it('matches oxygen at 50 psig through 1" copper', () => {
+    const oxygen = getLineConditions('oxygen', 50);
+    within(medicalGasEngineering.calculatePressureDrop(1, 100, COPPER_ROUGHNESS, 20, oxygen), 0.4089, 0.015);
+  });
+
+  for (const { name, diameter, length, roughness, velocity, density, kinematicViscosity, drop } of TEXTBOOK_CASES) {
+    it(`matches the published answer for ${name}`, () => {
+      const conditions = { ...WATER, density, kinematicViscosity };
+      within(medicalGasEngineering.calculatePressureDrop(diameter, length, roughness, velocity, conditions), drop, 0.02);
+    });
+  }
+});
+
+describe('calculatePipeSizing', () => {
+  for (const { gasType, flowRate, pressure, diameter, velocity } of SIZING_CASES) {
+    it(`${flowRate} SCFM ${gasType}`, () => {
+      const result = medicalGasEngineering.calculatePipeSizing(flowRate, pressure, 100, 'copper', gasType);
+      assert.equal(result.diameter, diameter);
+      assert.equal(result.tubeType, 'L');
+      assert.equal(result.governedBy, 'velocity');
+      within(result.velocity, velocity, 0.001);
+
+      // The drop is the Darcy-Weisbach drop checked against the published problems above
+      const conditions = getLineConditions(gasType, pressure);
+      within(
+        result.pressureDrop,
+        medicalGasEngineering.calculatePressureDrop(result.insideDiameter, 100, COPPER_ROUGHNESS, result.velocity, conditions),
+        1e-9
+      );
+      assert.ok((result.pressureLoss ?? result.pressureDrop) <= result.allowableDrop);
+    });
+  }
+
+  it('uses the thicker Type K wall when asked', () => {
+    const typeL = medicalGasEngineering.calculatePipeSizing(40, 50, 100, 'copper', 'oxygen');
+    const typeK = medicalGasEngineering.calculatePipeSizing(40, 50, 100, 'copper', 'oxygen', 70, { tubeType: 'K' });
+    assert.equal(typeK.insideDiameter, 1.245);
+    within(typeK.velocity, 18.258, 0.001); // 9.261 ACFM through a 1.245" bore
+    assert.ok(typeK.pressureDrop > typeL.pressureDrop);
+  });
+
+  it('upsizes past the velocity limit to meet a tight drop allowance', () => {
+    const oxygen = medicalGasEngineering.calculatePipeSizing(40, 50, 100, 'copper', 'oxygen', 70, { allowableDrop: 0.1 });
+    assert.equal(oxygen.diameter, 2);
+    assert.equal(oxygen.governedBy, 'pressure_drop');
+    assert.ok(oxygen.pressureDrop <= 0.1);
+
+    const vacuum = medicalGasEngineering.calculatePipeSizing(20, 15, 100, 'copper', 'vacuum', 70, { allowableDrop: 0.3 });
+    assert.equal(vacuum.diameter, 2);
+    assert.equal(vacuum.governedBy, 'pressure_drop');
+    assert.ok(vacuum.pressureLoss! <= 0.3);
+  });
+
+  it('sizes other materials on the nominal bore', () => {
+    const result = medicalGasEngineering.calculatePipeSizing(40, 50, 100, 'stainless_steel', 'oxygen');
+    assert.equal(result.tubeType, undefined);
+    assert.equal(result.insideDiameter, result.diameter);
+  });
+});
+
+describe('calculateSystemDemand', () => {
+  const outlet = (type: 'oxygen' | 'air', quantity: number, flowRate: number, room: string) => ({
+    type,
+    quantity,
+    flowRate,
+    pressure: 50,
+    simultaneousFactor: 1,
+    backupRequired: false,
+    location: { room, wallLocation: 'Headwall', heightFromFloor: 60 }
+  });
+
+  const room = (roomId: string, roomType: string, outlets: RoomGasRequirements['outlets']): RoomGasRequirements => ({
+    roomId,
+    roomName: roomId,
+    roomType,
+    area: 300,
+    ceilingHeight: 9,
+    outlets,
+    pressurization: 'neutral',
+    airChangesPerHour: 6,
+    filtrationLevel: 'MERV 14',
+    specialRequirements: []
+  });
+
+  // 8 ICU rooms x 2 oxygen outlets at 1 SCFM: 16 outlets taken band by band,
+  // 4 at 100%, 8 at 75% and 4 at 60%.
+  // 2 ORs x 4 oxygen outlets at 1.5 SCFM: anesthetizing locations at full use.
+  const rooms = [
+    ...Array.from({ length: 8 }, (_, index) => room(`ICU ${index + 1}`, 'icu', [outlet('oxygen', 2, 1, `ICU ${index + 1}`)])),
+    room('OR 1', 'operating_room', [outlet('oxygen', 4, 1.5, 'OR 1'), outlet('air', 2, 2, 'OR 1')]),
+    room('OR 2', 'operating_room', [outlet('oxygen', 4, 1.5, 'OR 2'), outlet('air', 2, 2, 'OR 2')])
+  ];
+  const systems = medicalGasEngineering.calculateSystemDemand(rooms);
+
+  it('sums connected flow and applies diversity per zone', () => {
+    const oxygen = systems.get('oxygen')!;
+    within(oxygen.totalDemand, 28, 1e-9);
+    within(oxygen.peakDemand, 24.4, 1e-9);
+
+    const criticalCare = oxygen.demandZones.find(zone => zone.areaType === 'critical_care')!;
+    assert.equal(criticalCare.outlets, 16);
+    within(criticalCare.diversity, 0.775, 1e-9);
+    within(criticalCare.designFlow, 12.4, 1e-9);
+  });
+
+  it('runs anesthetizing-only gases at full use', () => {
+    const air = systems.get('air')!;
+    within(air.totalDemand, 8, 1e-9);
+    within(air.peakDemand, 8, 1e-9);
+  });
+
+  it('sizes the source main for the whole design flow', () => {
+    const oxygen = systems.get('oxygen')!;
+    const main = oxygen.distribution.mainLines[0];
+    within(main.flowRate, oxygen.peakDemand, 0.05);
+    assert.ok(main.velocity <= 25);
+  });
+
+  it('flags a source plant that cannot carry peak demand with a unit out of service', () => {
+    const air = systems.get('air')!;
+    const plant = air.equipment.plant!;
+    const plantCheck = (system: typeof air) => medicalGasEngineering.performComplianceChecks(system, 'air')
+      .find(check => check.requirement.startsWith('Source plant'))!;
+    assert.equal(plantCheck(air).status, 'compliant');
+
+    const undersized = { ...air, equipment: { ...air.equipment, plant: { ...plant, firmCapacity: plant.designFlow / 2 } } };
+    assert.equal(plantCheck(undersized).status, 'non_compliant');
+  });
+
+  it('lists the sized plant as estimate equipment', () => {
+    const { sourceEquipment } = medicalGasEngineering.generateEngineeringReport(rooms);
+    const compressors = sourceEquipment.find(line => line.name.includes('medical air compressor'))!;
+    assert.equal(compressors.quantity, systems.get('air')!.equipment.plant!.units);
+    assert.equal(compressors.unitCost, systems.get('air')!.equipment.plant!.unitCost);
+  });
+
+  it('keeps the critical path within each gas budget', () => {
+    const longRun = medicalGasEngineering.calculateSystemDemand(rooms, {
+      oxygen: {
+        material: 'copper',
+        segments: [
+          { id: 'main', parentId: null, length: 900, fittings: [{ type: 'elbow_90', quantity: 12 }], outlets: [] },
+          { id: 'drop', parentId: 'main', length: 40, fittings: [{ type: 'tee_branch', quantity: 1 }], outlets: [{ quantity: 60, flowRate: 1 }] }
+        ]
+      }
+    });
+    const oxygen = longRun.get('oxygen')!;
+    assert.ok(oxygen.distribution.totalPressureDrop <= medicalGasEngineering.getPressureDropBudget('oxygen'));
+    assert.equal(oxygen.distribution.mainLines[0].governedBy, 'pressure_drop');
+  });
+});
+
+describe('piping takeoff', () => {
+  const segments: PipingSegment[] = [
+    { id: 'main', parentId: null, length: 120, fittings: [{ type: 'elbow_90', quantity: 4 }], outlets: [] },
+    { id: 'drop', parentId: 'main', length: 30, fittings: [{ type: 'tee_branch', quantity: 1 }], outlets: [{ quantity: 6, flowRate: 1 }] }
+  ];
+  const takeoff = (network: Omit<PipingNetwork, 'segments'>, laborRate?: number) =>
+    medicalGasEngineering.analyzeNetwork({ ...network, segments }, 'oxygen', 50, laborRate ? { laborRate } : {}).takeoff;
+  const tubeLines = (result: PipingTakeoff) => result.lines.filter(line => line.item.includes('copper tube'));
+
+  it('labels and prices tube by its type', () => {
+    const typeL = takeoff({ material: 'copper' })!;
+    const typeK = takeoff({ material: 'copper', tubeType: 'K' })!;
+    assert.ok(tubeLines(typeL).every(line => line.item.startsWith('Type L copper tube')));
+    assert.ok(tubeLines(typeK).every(line => line.item.startsWith('Type K copper tube')));
+
+    const tubeCost = (result: PipingTakeoff) => tubeLines(result).reduce((sum, line) => sum + line.materialCost, 0);
+    assert.deepEqual(tubeLines(typeK).map(line => line.quantity), tubeLines(typeL).map(line => line.quantity));
+    assert.ok(tubeCost(typeK) > tubeCost(typeL));
+  });
+
+  it('has no takeoff for materials other than copper', () => {
+    assert.equal(takeoff({ material: 'stainless_steel' }), null);
+
+    const { recommendations } = medicalGasEngineering.generateEngineeringReport(
+      [{
+        roomId: 'Ward', roomName: 'Ward', roomType: 'patient_room', area: 200, ceilingHeight: 9,
+        outlets: [{
+          type: 'oxygen', quantity: 6, flowRate: 1, pressure: 50, simultaneousFactor: 1, backupRequired: false,
+          location: { room: 'Ward', wallLocation: 'Headwall', heightFromFloor: 60 }
+        }],
+        pressurization: 'neutral', airChangesPerHour: 6, filtrationLevel: 'MERV 14', specialRequirements: []
+      }],
+      { oxygen: { material: 'stainless_steel', segments } }
+    );
+    assert.ok(recommendations.some(note => note.startsWith('No piping takeoff for stainless steel oxygen')));
+  });
+
+  it('prices labor at the given rate', () => {
+    const base = takeoff({ material: 'copper' }, 100)!;
+    const doubled = takeoff({ material: 'copper' }, 200)!;
+    within(doubled.laborCost, base.laborCost * 2, 1e-9);
+    assert.equal(doubled.materialCost, base.materialCost);
+  });
+});
+
+// ===== PROPERTIES =====
+
+const GASES = ['oxygen', 'air', 'n2o', 'nitrogen', 'vacuum', 'wagd'];
+const AREA_TYPES: AreaType[] = ['anesthetizing', 'critical_care', 'neonatal', 'emergency', 'recovery', 'general_care', 'support'];
+const RUNS = 300;
+
+const linePressure = (gasType: string) => gasType === 'nitrogen' ? 180 : gasType === 'vacuum' || gasType === 'wagd' ? 15 : 50;
+
+const randomLoad = (next: () => number): SegmentOutletLoad => ({
+  areaType: AREA_TYPES[Math.floor(next() * AREA_TYPES.length)],
+  quantity: 1 + Math.floor(next() * 20),
+  flowRate: [0.5, 1, 1.5, 2, 3.5][Math.floor(next() * 5)]
+});
+
+// Random tree of 2-11 segments, each hung off an earlier one
+const randomSegments = (next: () => number): PipingSegment[] =>
+  Array.from({ length: 2 + Math.floor(next() * 10) }, (_, index) => ({
+    id: `S${index}`,
+    parentId: index === 0 ? null : `S${Math.floor(next() * index)}`,
+    length: between(next, 5, 200),
+    fittings: next() < 0.5 ? [{ type: 'elbow_90' as const, quantity: 1 + Math.floor(next() * 4) }] : [],
+    outlets: next() < 0.7 ? [randomLoad(next)] : []
+  }));
+
+const analyze = (gasType: string, segments: PipingSegment[]) => {
+  const { mainLines, branchLines } = medicalGasEngineering.analyzeNetwork({ material: 'copper', segments }, gasType, linePressure(gasType));
+  return new Map([...mainLines, ...branchLines].map(calculation => [calculation.segmentId, calculation]));
+};
+
+describe('monotonicity', () => {
+  it('more flow never yields a smaller pipe', () => {
+    const next = random(20240611);
+    for (let run = 0; run < RUNS; run++) {
+      const gasType = GASES[Math.floor(next() * GASES.length)];
+      const length = between(next, 5, 500);
+      const flow = between(next, 0.5, 400);
+      const moreFlow = flow * between(next, 1, 3);
+
+      const smaller = medicalGasEngineering.calculatePipeSizing(flow, linePressure(gasType), length, 'copper', gasType);
+      const larger = medicalGasEngineering.calculatePipeSizing(moreFlow, linePressure(gasType), length, 'copper', gasType);
+      assert.ok(
+        larger.diameter >= smaller.diameter,
+        `${gasType} ${length.toFixed(1)} ft: ${moreFlow.toFixed(2)} SCFM sized ${larger.diameter}" under ${flow.toFixed(2)} SCFM at ${smaller.diameter}"`
+      );
+    }
+  });
+
+  // A longer run may be upsized and then drop less, so drop is only compared on the same size
+  it('longer runs never yield a smaller pipe, or less drop on the same pipe', () => {
+    const next = random(19700101);
+    for (let run = 0; run < RUNS; run++) {
+      const gasType = GASES[Math.floor(next() * GASES.length)];
+      const flow = between(next, 0.5, 400);
+      const length = between(next, 5, 500);
+      const longerLength = length + between(next, 0, 500);
+
+      const shorter = medicalGasEngineering.calculatePipeSizing(flow, linePressure(gasType), length, 'copper', gasType);
+      const longer = medicalGasEngineering.calculatePipeSizing(flow, linePressure(gasType), longerLength, 'copper', gasType);
+      const label = `${gasType} ${flow.toFixed(2)} SCFM: ${longerLength.toFixed(1)} ft against ${length.toFixed(1)} ft`;
+      assert.ok(longer.diameter >= shorter.diameter, `${label} sized ${longer.diameter}" under ${shorter.diameter}"`);
+      if (longer.diameter === shorter.diameter) {
+        assert.ok(longer.pressureDrop >= shorter.pressureDrop, `${label} dropped less through the same ${longer.diameter}"`);
+      }
+    }
+  });
+
+  it('lengthening a segment never shrinks a pipe in the network', () => {
+    const next = random(19840524);
+    for (let run = 0; run < RUNS; run++) {
+      const gasType = GASES[Math.floor(next() * GASES.length)];
+      const segments = randomSegments(next);
+      const target = Math.floor(next() * segments.length);
+      const lengthened = segments.map((segment, index) =>
+        index === target ? { ...segment, length: segment.length + between(next, 1, 300) } : segment
+      );
+
+      const before = analyze(gasType, segments);
+      const after = analyze(gasType, lengthened);
+      before.forEach((calculation, segmentId) => assert.ok(
+        after.get(segmentId)!.diameter >= calculation.diameter,
+        `${gasType} with S${target} lengthened: ${segmentId} shrank from ${calculation.diameter}" to ${after.get(segmentId)!.diameter}"`
+      ));
+    }
+  });
+
+  it('adding outlets never shrinks a pipe in the network', () => {
+    const next = random(19920315);
+    for (let run = 0; run < RUNS; run++) {
+      const gasType = GASES[Math.floor(next() * GASES.length)];
+      const segments = randomSegments(next);
+      const target = Math.floor(next() * segments.length);
+      const added = segments.map((segment, index) =>
+        index === target ? { ...segment, outlets: [...segment.outlets, randomLoad(next)] } : segment
+      );
+
+      const before = analyze(gasType, segments);
+      const after = analyze(gasType, added);
+      before.forEach((calculation, segmentId) => assert.ok(
+        after.get(segmentId)!.diameter >= calculation.diameter,
+        `${gasType} with outlets added at S${target}: ${segmentId} shrank from ${calculation.diameter}" to ${after.get(segmentId)!.diameter}"`
+      ));
+    }
+  });
+});
+
+const designFlow = (gasType: string, outlets: SegmentOutletLoad[]) =>
+  analyze(gasType, [{ id: 'main', parentId: null, length: 100, fittings: [], outlets }]).get('main')!.flowRate;
+
+describe('diversity', () => {
+  it('steps up, not down, across a band boundary', () => {
+    // General care oxygen: 2 outlets at 100%, the next 8 at 50%, the rest at 25%
+    const general = (quantity: number) => designFlow('oxygen', [{ areaType: 'general_care', quantity, flowRate: 1 }]);
+    within(general(10), 6, 1e-9);
+    within(general(11), 6.25, 1e-9);
+  });
+
+  it('design flow never drops as outlets are added', () => {
+    const next = random(19990401);
+    for (let run = 0; run < RUNS; run++) {
+      const gasType = GASES[Math.floor(next() * GASES.length)];
+      const outlets = Array.from({ length: 1 + Math.floor(next() * 4) }, () => randomLoad(next));
+      const added = randomLoad(next);
+
+      const before = designFlow(gasType, outlets);
+      const after = designFlow(gasType, [...outlets, added]);
+      assert.ok(
+        after >= before - 1e-9,
+        `${gasType}: adding ${added.quantity} ${added.areaType} outlets at ${added.flowRate} SCFM cut ${before.toFixed(2)} to ${after.toFixed(2)} SCFM`
+      );
+    }
+  });
+
+  it('no segment carries less than its children', () => {
+    const next = random(20010911);
+    for (let run = 0; run < RUNS; run++) {
+      const gasType = GASES[Math.floor(next() * GASES.length)];
+      const calculations = analyze(gasType, randomSegments(next));
+      calculations.forEach(child => {
+        if (child.parentId === null) return;
+        const parent = calculations.get(child.parentId)!;
+        assert.ok(
+          parent.flowRate >= child.flowRate - 1e-9,
+          `${gasType}: ${parent.segmentId} carries ${parent.flowRate.toFixed(2)} SCFM under ${child.segmentId} at ${child.flowRate.toFixed(2)}`
+        );
+      });
+    }
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { plantEquipmentLines, sizeMedicalAirPlant, sizeVacuumPlant } from '../supplySizing';
+
+describe('source plant sizing', () => {
+  it('keeps adding duty units past the largest motor until firm capacity meets demand', () => {
+    // 3000 SCFM plus 15% desiccant purge against 100 HP rotary screws at 420 SCFM each
+    const air = sizeMedicalAirPlant(3000, 50, undefined, 1);
+    assert.equal(air.units, 10);
+    assert.ok(air.firmCapacity >= air.designFlow);
+
+    // 60 HP liquid ring pumps at 180 SCFM each
+    const vacuum = sizeVacuumPlant(5000, 'vacuum', 1);
+    assert.equal(vacuum.units, 29);
+    assert.ok(vacuum.firmCapacity >= vacuum.designFlow);
+  });
+
+  it('meets design flow with the standby units out of service at any demand', () => {
+    for (let flow = 1; flow <= 6000; flow += 37) {
+      for (const standbyUnits of [0, 1, 2]) {
+        for (const plant of [sizeMedicalAirPlant(flow, 50, undefined, standbyUnits), sizeVacuumPlant(flow, 'vacuum', standbyUnits)]) {
+          assert.ok(
+            plant.firmCapacity >= plant.designFlow,
+            `${plant.gasType} at ${flow} SCFM, N+${standbyUnits}: ${plant.firmCapacity} SCFM firm`
+          );
+        }
+      }
+    }
+  });
+});
+
+describe('plantEquipmentLines', () => {
+  it('prices the units, receiver and dryers of a duplex medical air plant', () => {
+    // 23 SCFM with purge: two 7.5 HP reciprocating units ($8,000 + $1,500/HP),
+    // a 200 gal receiver ($1,500 + $8/gal) and two 26.25 SCFM dryers ($4,000 + $60/SCFM);
+    // installation is 25% of each unit cost
+    const lines = plantEquipmentLines(sizeMedicalAirPlant(20));
+
+    assert.deepEqual(
+      lines.map(({ name, costCode, quantity, unitCost, installationCost }) => ({ name, costCode, quantity, unitCost, installationCost })),
+      [
+        { name: 'Oil-less reciprocating medical air compressor (7.5 HP)', costCode: '22 61 19', quantity: 2, unitCost: 19250, installationCost: 4813 },
+        { name: 'Air receiver (200 gal)', costCode: '22 61 19', quantity: 1, unitCost: 3100, installationCost: 775 },
+        { name: 'Desiccant air dryer (26 SCFM)', costCode: '22 61 19', quantity: 2, unitCost: 5575, installationCost: 1394 }
+      ]
+    );
+  });
+
+  it('leaves the dryer off vacuum plants', () => {
+    const lines = plantEquipmentLines(sizeVacuumPlant(40));
+    assert.equal(lines.length, 2);
+    assert.equal(lines[0].quantity, 2);
+  });
+});
@@ -0,0 +1,243 @@
+// Engineering Unit Systems
+// The engineering engine calculates in US customary units (SCFM, psi, inches, feet,
+// ft/sec). This layer converts SI inputs in and renders results in either system.
+
+import type {
+  DemandZone,
+  MedicalGasSystem,
+  PipeSegmentCalculation,
+  PipingNetwork
+} from './medicalGasEngineering';
+import { isVacuumService } from './gasProperties';
+import type { RoomGasInput, RoomGasOverride } from './estimateGasAdapter';
+
+export type UnitSystem = 'imperial' | 'si';
+
+export type Quantity =
+  | 'flow'
+  | 'pressure'
+  | 'vacuum'
+  | 'diameter'
+  | 'length'
+  | 'velocity'
+  | 'area'
+  | 'density'
+  | 'temperature';
+
+// SI value per imperial unit
+export const SI_FACTORS: Record<Exclude<Quantity, 'temperature'>, number> = {
+  flow: 28.316846592, // L/min per SCFM
+  pressure: 6.894757293, // kPa per psi
+  vacuum: 3.386388158, // kPa per inHg at 32°F
+  diameter: 25.4, // mm per inch
+  length: 0.3048, // m per foot
+  velocity: 0.3048, // m/s per ft/sec
+  area: 0.09290304, // m² per sq ft
+  density: 16.01846337 // kg/m³ per lb/ft³
+};
+
+export const UNIT_LABELS: Record<Quantity, Record<UnitSystem, string>> = {
+  flow: { imperial: 'SCFM', si: 'L/min' },
+  pressure: { imperial: 'psi', si: 'kPa' },
+  vacuum: { imperial: 'inHg', si: 'kPa' },
+  diameter: { imperial: 'in', si: 'mm' },
+  length: { imperial: 'ft', si: 'm' },
+  velocity: { imperial: 'ft/s', si: 'm/s' },
+  area: { imperial: 'sq ft', si: 'm²' },
+  density: { imperial: 'lb/ft³', si: 'kg/m³' },
+  temperature: { imperial: '°F', si: '°C' }
+};
+
+// ===== CONVERSIONS =====
+
+export function toSI(value: number, quantity: Quantity): number {
+  if (quantity === 'temperature') return (value - 32) * 5 / 9;
+  return value * SI_FACTORS[quantity];
+}
+
+export function fromSI(value: number, quantity: Quantity): number {
+  if (quantity === 'temperature') return value * 9 / 5 + 32;
+  return value / SI_FACTORS[quantity];
+}
+
+// Imperial value expressed in the requested system
+export function toUnits(value: number, quantity: Quantity, system: UnitSystem): number {
+  return system === 'si' ? toSI(value, quantity) : value;
+}
+
+export function formatQuantity(value: number, quantity: Quantity, system: UnitSystem, digits = 1): string {
+  return `${toUnits(value, quantity, system).toFixed(digits)} ${UNIT_LABELS[quantity][system]}`;
+}
+
+// Query-string unit system; missing means imperial, anything unknown is null
+export function parseUnitSystem(value: string | null | undefined): UnitSystem | null {
+  if (!value) return 'imperial';
+  return value === 'si' || value === 'imperial' ? value : null;
+}
+
+export function getUnitLabels(system: UnitSystem): Record<Quantity, string> {
+  return Object.fromEntries(
+    (Object.keys(UNIT_LABELS) as Quantity[]).map(quantity => [quantity, UNIT_LABELS[quantity][system]])
+  ) as Record<Quantity, string>;
+}
+
+// Outlet and system pressures are inHg for vacuum services and psi otherwise
+const pressureQuantity = (gasType: string): Quantity => isVacuumService(gasType) ? 'vacuum' : 'pressure';
+
+// ===== INPUTS =====
+
+// Rooms entered in SI: m², m, L/min, kPa (vacuum in kPa below atmosphere) and mm.
+// Omitted fields stay omitted so defaults are applied in imperial units afterwards.
+export function roomsFromSI(rooms: RoomGasInput[]): RoomGasInput[] {
+  return rooms.map(room => ({
+    ...room,
+    area: fromSI(room.area, 'area'),
+    ceilingHeight: room.ceilingHeight === undefined ? undefined : fromSI(room.ceilingHeight, 'length'),
+    outlets: room.outlets.map(outlet => ({
+      ...outlet,
+      flowRate: fromSI(outlet.flowRate, 'flow'),
+      pressure: outlet.pressure === undefined ? undefined : fromSI(outlet.pressure, pressureQuantity(outlet.type)),
+      location: {
+        ...outlet.location,
+        heightFromFloor: outlet.location.heightFromFloor === undefined
+          ? undefined
+          : fromSI(outlet.location.heightFromFloor, 'diameter')
+      }
+    }))
+  }));
+}
+
+// Segment lengths in m and outlet flows in L/min
+export function networkFromSI(network: PipingNetwork): PipingNetwork {
+  return {
+    ...network,
+    segments: network.segments.map(segment => ({
+      ...segment,
+      length: fromSI(segment.length, 'length'),
+      outlets: segment.outlets.map(load => ({ ...load, flowRate: fromSI(load.flowRate, 'flow') }))
+    }))
+  };
+}
+
+// Per-room overrides for estimate rooms, in the same SI units as roomsFromSI
+export function overrideFromSI(override: RoomGasOverride): RoomGasOverride {
+  const outlets = Object.fromEntries(Object.entries(override.outlets ?? {}).map(([gasType, outlet]) => [gasType, {
+    ...outlet,
+    flowRate: outlet.flowRate === undefined ? undefined : fromSI(outlet.flowRate, 'flow'),
+    pressure: outlet.pressure === undefined ? undefined : fromSI(outlet.pressure, pressureQuantity(gasType)),
+    heightFromFloor: outlet.heightFromFloor === undefined ? undefined : fromSI(outlet.heightFromFloor, 'diameter')
+  }]));
+
+  return {
+    ...override,
+    ceilingHeight: override.ceilingHeight === undefined ? undefined : fromSI(override.ceilingHeight, 'length'),
+    outlets
+  };
+}
+
+// ===== OUTPUTS =====
+
+function convertSegment(segment: PipeSegmentCalculation, system: UnitSystem): PipeSegmentCalculation {
+  const to = (value: number, quantity: Quantity) => toUnits(value, quantity, system);
+  return {
+    ...segment,
+    diameter: to(segment.diameter, 'diameter'),
+    insideDiameter: to(segment.insideDiameter, 'diameter'),
+    length: to(segment.length, 'length'),
+    pressureDrop: to(segment.pressureDrop, 'pressure'),
+    allowableDrop: to(segment.allowableDrop, pressureQuantity(segment.gasType)),
+    velocity: to(segment.velocity, 'velocity'),
+    flowRate: to(segment.flowRate, 'flow'),
+    actualFlowRate: to(segment.actualFlowRate, 'flow'),
+    pressureLoss: segment.pressureLoss === undefined ? undefined : to(segment.pressureLoss, 'vacuum'),
+    roughness: to(segment.roughness, 'length'),
+    density: to(segment.density, 'density'),
+    equivalentLength: to(segment.equivalentLength, 'length'),
+    connectedFlow: to(segment.connectedFlow, 'flow'),
+    cumulativePressureDrop: to(segment.cumulativePressureDrop, 'pressure')
+  };
+}
+
+export function convertDemandZone(zone: DemandZone, system: UnitSystem): DemandZone {
+  return {
+    ...zone,
+    flowPerOutlet: toUnits(zone.flowPerOutlet, 'flow', system),
+    connectedFlow: toUnits(zone.connectedFlow, 'flow', system),
+    designFlow: toUnits(zone.designFlow, 'flow', system)
+  };
+}
+
+// Flows, pressures, pipe dimensions and velocities in the requested system.
+// Equipment descriptions and stored-gas volumes keep their catalog units.
+export function convertSystem(gasSystem: MedicalGasSystem, system: UnitSystem): MedicalGasSystem {
+  if (system === 'imperial') return gasSystem;
+
+  const to = (value: number, quantity: Quantity) => toUnits(value, quantity, system);
+  const pressure = pressureQuantity(gasSystem.gasType);
+  const { systemPressure, distribution, equipment } = gasSystem;
+  const takeoff = distribution.takeoff;
+
+  return {
+    ...gasSystem,
+    totalDemand: to(gasSystem.totalDemand, 'flow'),
+    peakDemand: to(gasSystem.peakDemand, 'flow'),
+    demandZones: gasSystem.demandZones.map(zone => convertDemandZone(zone, system)),
+    systemPressure: {
+      ...systemPressure,
+      operatingPressure: to(systemPressure.operatingPressure, pressure),
+      alarmSetPoints: {
+        highPressure: to(systemPressure.alarmSetPoints.highPressure, pressure),
+        lowPressure: to(systemPressure.alarmSetPoints.lowPressure, pressure),
+        switchover: to(systemPressure.alarmSetPoints.switchover, pressure)
+      }
+    },
+    distribution: {
+      ...distribution,
+      mainLines: distribution.mainLines.map(segment => convertSegment(segment, system)),
+      branchLines: distribution.branchLines.map(segment => convertSegment(segment, system)),
+      totalLength: to(distribution.totalLength, 'length'),
+      totalPressureDrop: to(distribution.totalPressureDrop, 'pressure'),
+      takeoff: takeoff && {
+        ...takeoff,
+        totalLength: to(takeoff.totalLength, 'length'),
+        segments: takeoff.segments.map(segment => ({
+          ...segment,
+          diameter: to(segment.diameter, 'diameter'),
+          length: to(segment.length, 'length'),
+          supportSpacing: to(segment.supportSpacing, 'length'),
+          thermalExpansion: to(segment.thermalExpansion, 'diameter')
+        }))
+      }
+    },
+    equipment: {
+      ...equipment,
+      plant: equipment.plant && {
+        ...equipment.plant,
+        designFlow: to(equipment.plant.designFlow, 'flow'),
+        unitCapacity: to(equipment.plant.unitCapacity, 'flow'),
+        firmCapacity: to(equipment.plant.firmCapacity, 'flow')
+      },
+      supply: equipment.supply && {
+        ...equipment.supply,
+        designFlow: to(equipment.supply.designFlow, 'flow')
+      }
+    }
+  };
+}
+
+// Any report with per-gas systems and demand zones, rendered in the requested system
+export function convertReport<T extends { systems: Record<string, MedicalGasSystem>; demand?: DemandZone[] }>(
+  report: T,
+  system: UnitSystem
+): T & { units: Record<Quantity, string> } {
+  const systems = Object.fromEntries(
+    Object.entries(report.systems).map(([gasType, gasSystem]) => [gasType, convertSystem(gasSystem, system)])
+  );
+
+  return {
+    ...report,
+    systems,
+    ...(report.demand ? { demand: report.demand.map(zone => convertDemandZone(zone, system)) } : {}),
+    units: getUnitLabels(system)
+  };
+}
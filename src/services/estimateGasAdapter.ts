@@ -0,0 +1,226 @@
+// Estimate Room to Engineering Input Adapter
+// Converts estimate rooms, which only carry outlet counts, into RoomGasRequirements
+// using room-type defaults for flow, pressure, mounting and backup, with per-room overrides
+
+import { normalizeRoomType, RoomType } from '@/lib/pricing/room-types';
+import type { MedicalGasOutlet, RoomGasRequirements } from './medicalGasEngineering';
+import { getAreaDemand, getAreaType, getDiversityFactor } from './gasDemandTables';
+
+type OutletGasType = MedicalGasOutlet['type'];
+
+// Outlet counts as stored on an estimate room
+export interface EstimateRoomInput {
+  id: string;
+  name: string;
+  type: string;
+  area: number;
+  ceilingHeight?: number | null;
+  oxygenOutlets: number;
+  airOutlets: number;
+  vacuumOutlets: number;
+  co2Outlets?: number;
+  n2oOutlets?: number;
+  wagdOutlets?: number;
+  nitrogenOutlets?: number;
+  instrumentAirOutlets?: number;
+  argonOutlets?: number;
+  backupRequired?: boolean;
+  specialRequirements?: string | null;
+}
+
+// Rooms entered directly; unit-bearing fields left out take the room-type and
+// gas defaults once the room is in imperial units
+export type RoomGasInput = Omit<RoomGasRequirements, 'ceilingHeight' | 'outlets'> & {
+  ceilingHeight?: number;
+  outlets: Array<Omit<MedicalGasOutlet, 'pressure' | 'location'> & {
+    pressure?: number;
+    location: Omit<MedicalGasOutlet['location'], 'heightFromFloor'> & { heightFromFloor?: number };
+  }>;
+};
+
+export interface OutletOverride {
+  flowRate?: number; // SCFM per outlet
+  pressure?: number;
+  backupRequired?: boolean;
+  wallLocation?: string;
+  heightFromFloor?: number; // inches
+}
+
+export interface RoomGasOverride {
+  floor?: string;
+  department?: string;
+  ceilingHeight?: number;
+  pressurization?: RoomGasRequirements['pressurization'];
+  airChangesPerHour?: number;
+  filtrationLevel?: string;
+  outlets?: Partial<Record<OutletGasType, OutletOverride>>;
+}
+
+interface RoomTypeDefaults {
+  ceilingHeight: number; // ft
+  pressurization: RoomGasRequirements['pressurization'];
+  airChangesPerHour: number; // ASHRAE 170 Table 7.1 minimum total
+  filtrationLevel: string;
+  wallLocation: string;
+  heightFromFloor: number; // inches to outlet centerline
+  backupRequired: boolean;
+}
+
+export const ROOM_GAS_DEFAULTS: Record<RoomType, RoomTypeDefaults> = {
+  operating_room: {
+    ceilingHeight: 10,
+    pressurization: 'positive',
+    airChangesPerHour: 20,
+    filtrationLevel: 'MERV 14 + HEPA',
+    wallLocation: 'Ceiling service column',
+    heightFromFloor: 84,
+    backupRequired: true
+  },
+  icu: {
+    ceilingHeight: 9,
+    pressurization: 'neutral',
+    airChangesPerHour: 6,
+    filtrationLevel: 'MERV 14',
+    wallLocation: 'Headwall',
+    heightFromFloor: 60,
+    backupRequired: true
+  },
+  nicu: {
+    ceilingHeight: 9,
+    pressurization: 'positive',
+    airChangesPerHour: 6,
+    filtrationLevel: 'MERV 14',
+    wallLocation: 'Headwall',
+    heightFromFloor: 54,
+    backupRequired: true
+  },
+  emergency_room: {
+    ceilingHeight: 9,
+    pressurization: 'neutral',
+    airChangesPerHour: 6,
+    filtrationLevel: 'MERV 14',
+    wallLocation: 'Headwall',
+    heightFromFloor: 60,
+    backupRequired: true
+  },
+  recovery_room: {
+    ceilingHeight: 9,
+    pressurization: 'neutral',
+    airChangesPerHour: 6,
+    filtrationLevel: 'MERV 14',
+    wallLocation: 'Headwall',
+    heightFromFloor: 60,
+    backupRequired: false
+  },
+  patient_room: {
+    ceilingHeight: 9,
+    pressurization: 'neutral',
+    airChangesPerHour: 4,
+    filtrationLevel: 'MERV 14',
+    wallLocation: 'Headwall',
+    heightFromFloor: 60,
+    backupRequired: false
+  },
+  support_room: {
+    ceilingHeight: 9,
+    pressurization: 'neutral',
+    airChangesPerHour: 4,
+    filtrationLevel: 'MERV 8',
+    wallLocation: 'Wall',
+    heightFromFloor: 48,
+    backupRequired: false
+  }
+};
+
+// psig at the outlet; inches Hg vacuum for vacuum services
+export const DEFAULT_OUTLET_PRESSURES: Record<OutletGasType, number> = {
+  oxygen: 50,
+  air: 50,
+  vacuum: 15,
+  co2: 50,
+  n2o: 50,
+  nitrogen: 180,
+  argon: 50,
+  wagd: 15,
+  instrument_air: 180
+};
+
+const OUTLET_COUNT_FIELDS: Record<OutletGasType, keyof EstimateRoomInput> = {
+  oxygen: 'oxygenOutlets',
+  air: 'airOutlets',
+  vacuum: 'vacuumOutlets',
+  co2: 'co2Outlets',
+  n2o: 'n2oOutlets',
+  nitrogen: 'nitrogenOutlets',
+  argon: 'argonOutlets',
+  wagd: 'wagdOutlets',
+  instrument_air: 'instrumentAirOutlets'
+};
+
+export function toRoomGasRequirements(room: EstimateRoomInput, override: RoomGasOverride = {}): RoomGasRequirements {
+  const defaults = ROOM_GAS_DEFAULTS[normalizeRoomType(room.type) ?? 'patient_room'];
+  const areaType = getAreaType(room.type);
+
+  const outlets = (Object.keys(OUTLET_COUNT_FIELDS) as OutletGasType[])
+    .map(gasType => ({ gasType, quantity: Number(room[OUTLET_COUNT_FIELDS[gasType]] ?? 0) }))
+    .filter(({ quantity }) => quantity > 0)
+    .map(({ gasType, quantity }): MedicalGasOutlet => {
+      const outletOverride = override.outlets?.[gasType] ?? {};
+      return {
+        type: gasType,
+        quantity,
+        flowRate: outletOverride.flowRate ?? getAreaDemand(gasType, areaType).flowRate,
+        pressure: outletOverride.pressure ?? DEFAULT_OUTLET_PRESSURES[gasType],
+        simultaneousFactor: getDiversityFactor(gasType, areaType, quantity),
+        backupRequired: outletOverride.backupRequired ?? (room.backupRequired || defaults.backupRequired),
+        location: {
+          room: room.name,
+          wallLocation: outletOverride.wallLocation ?? defaults.wallLocation,
+          heightFromFloor: outletOverride.heightFromFloor ?? defaults.heightFromFloor
+        }
+      };
+    });
+
+  return {
+    roomId: room.id,
+    roomName: room.name,
+    roomType: room.type,
+    floor: override.floor,
+    department: override.department,
+    area: room.area,
+    ceilingHeight: override.ceilingHeight ?? room.ceilingHeight ?? defaults.ceilingHeight,
+    outlets,
+    pressurization: override.pressurization ?? defaults.pressurization,
+    airChangesPerHour: override.airChangesPerHour ?? defaults.airChangesPerHour,
+    filtrationLevel: override.filtrationLevel ?? defaults.filtrationLevel,
+    specialRequirements: room.specialRequirements ? [room.specialRequirements] : []
+  };
+}
+
+// Overrides are keyed by estimate room id
+export function buildRoomGasRequirements(
+  rooms: EstimateRoomInput[],
+  overrides: Record<string, RoomGasOverride> = {}
+): RoomGasRequirements[] {
+  return rooms.map(room => toRoomGasRequirements(room, overrides[room.id]));
+}
+
+// Fill in omitted ceiling heights, outlet pressures and mounting heights; the
+// rooms must already be in imperial units
+export function withRoomGasDefaults(rooms: RoomGasInput[]): RoomGasRequirements[] {
+  return rooms.map(room => {
+    const defaults = ROOM_GAS_DEFAULTS[normalizeRoomType(room.roomType) ?? 'patient_room'];
+    return {
+      ...room,
+      ceilingHeight: room.ceilingHeight ?? defaults.ceilingHeight,
+      outlets: room.outlets.map(outlet => ({
+        ...outlet,
+        pressure: outlet.pressure ?? DEFAULT_OUTLET_PRESSURES[outlet.type],
+        location: {
+          ...outlet.location,
+          heightFromFloor: outlet.location.heightFromFloor ?? defaults.heightFromFloor
+        }
+      }))
+    };
+  });
+}
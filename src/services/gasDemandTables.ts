@@ -0,0 +1,172 @@
+// Medical Gas Demand Tables
+// Per-outlet design flows and simultaneous-use (diversity) percentages by area
+// type and outlet count, after the NFPA 99 Annex B / CGA design tables
+
+import { normalizeRoomType, RoomType } from '@/lib/pricing/room-types';
+import { GasType } from './gasProperties';
+
+export type AreaType =
+  | 'anesthetizing'
+  | 'critical_care'
+  | 'neonatal'
+  | 'emergency'
+  | 'recovery'
+  | 'general_care'
+  | 'support';
+
+export interface DiversityBand {
+  maxOutlets: number; // upper bound of the band, inclusive
+  factor: number; // fraction of connected outlets in use
+}
+
+export interface AreaDemand {
+  flowRate: number; // SCFM per outlet (per inlet for vacuum)
+  diversity: DiversityBand[];
+}
+
+export const AREA_TYPE_LABELS: Record<AreaType, string> = {
+  anesthetizing: 'Anesthetizing Locations',
+  critical_care: 'Critical Care',
+  neonatal: 'Neonatal Intensive Care',
+  emergency: 'Emergency',
+  recovery: 'Post-Anesthesia Recovery',
+  general_care: 'General Patient Care',
+  support: 'Support Areas'
+};
+
+export const ROOM_AREA_TYPES: Record<RoomType, AreaType> = {
+  operating_room: 'anesthetizing',
+  icu: 'critical_care',
+  nicu: 'neonatal',
+  emergency_room: 'emergency',
+  recovery_room: 'recovery',
+  patient_room: 'general_care',
+  support_room: 'support'
+};
+
+// Anesthetizing locations run every outlet at once; patient floors rarely do
+const FULL_USE: DiversityBand[] = [
+  { maxOutlets: Infinity, factor: 1.0 }
+];
+
+const CRITICAL_USE: DiversityBand[] = [
+  { maxOutlets: 4, factor: 1.0 },
+  { maxOutlets: 12, factor: 0.75 },
+  { maxOutlets: 24, factor: 0.6 },
+  { maxOutlets: Infinity, factor: 0.5 }
+];
+
+const ACUTE_USE: DiversityBand[] = [
+  { maxOutlets: 4, factor: 1.0 },
+  { maxOutlets: 12, factor: 0.5 },
+  { maxOutlets: 24, factor: 0.4 },
+  { maxOutlets: Infinity, factor: 0.33 }
+];
+
+const GENERAL_USE: DiversityBand[] = [
+  { maxOutlets: 2, factor: 1.0 },
+  { maxOutlets: 10, factor: 0.5 },
+  { maxOutlets: 50, factor: 0.25 },
+  { maxOutlets: Infinity, factor: 0.15 }
+];
+
+const OCCASIONAL_USE: DiversityBand[] = [
+  { maxOutlets: 1, factor: 1.0 },
+  { maxOutlets: 10, factor: 0.25 },
+  { maxOutlets: Infinity, factor: 0.1 }
+];
+
+export const GAS_DEMAND_TABLES: Partial<Record<GasType, Partial<Record<AreaType, AreaDemand>>>> = {
+  oxygen: {
+    anesthetizing: { flowRate: 1.0, diversity: FULL_USE },
+    critical_care: { flowRate: 1.0, diversity: CRITICAL_USE },
+    neonatal: { flowRate: 1.0, diversity: CRITICAL_USE },
+    emergency: { flowRate: 1.0, diversity: ACUTE_USE },
+    recovery: { flowRate: 1.0, diversity: ACUTE_USE },
+    general_care: { flowRate: 1.0, diversity: GENERAL_USE },
+    support: { flowRate: 1.0, diversity: OCCASIONAL_USE }
+  },
+  air: {
+    anesthetizing: { flowRate: 1.5, diversity: FULL_USE },
+    critical_care: { flowRate: 2.0, diversity: CRITICAL_USE },
+    neonatal: { flowRate: 1.5, diversity: CRITICAL_USE },
+    emergency: { flowRate: 1.0, diversity: ACUTE_USE },
+    recovery: { flowRate: 1.0, diversity: ACUTE_USE },
+    general_care: { flowRate: 0.5, diversity: GENERAL_USE },
+    support: { flowRate: 0.5, diversity: OCCASIONAL_USE }
+  },
+  vacuum: {
+    anesthetizing: { flowRate: 3.5, diversity: FULL_USE },
+    critical_care: { flowRate: 1.0, diversity: CRITICAL_USE },
+    neonatal: { flowRate: 1.0, diversity: CRITICAL_USE },
+    emergency: { flowRate: 1.0, diversity: ACUTE_USE },
+    recovery: { flowRate: 1.0, diversity: ACUTE_USE },
+    general_care: { flowRate: 1.0, diversity: GENERAL_USE },
+    support: { flowRate: 1.0, diversity: OCCASIONAL_USE }
+  },
+  n2o: {
+    anesthetizing: { flowRate: 0.5, diversity: FULL_USE },
+    emergency: { flowRate: 0.5, diversity: OCCASIONAL_USE }
+  },
+  co2: {
+    anesthetizing: { flowRate: 1.0, diversity: ACUTE_USE }
+  },
+  nitrogen: {
+    anesthetizing: { flowRate: 15.0, diversity: OCCASIONAL_USE }
+  },
+  instrument_air: {
+    anesthetizing: { flowRate: 15.0, diversity: OCCASIONAL_USE }
+  },
+  argon: {
+    anesthetizing: { flowRate: 0.5, diversity: OCCASIONAL_USE }
+  },
+  wagd: {
+    anesthetizing: { flowRate: 1.0, diversity: FULL_USE },
+    recovery: { flowRate: 1.0, diversity: ACUTE_USE }
+  }
+};
+
+// Gases or areas missing from the tables fall back to this
+const FALLBACK_DEMAND: AreaDemand = { flowRate: 1.0, diversity: GENERAL_USE };
+
+export function getAreaType(roomType: string): AreaType {
+  const normalized = normalizeRoomType(roomType);
+  return normalized ? ROOM_AREA_TYPES[normalized] : 'general_care';
+}
+
+export function getAreaDemand(gasType: string, areaType: AreaType): AreaDemand {
+  return GAS_DEMAND_TABLES[gasType as GasType]?.[areaType] ?? FALLBACK_DEMAND;
+}
+
+// Design flow for a group of outlets. Each band's factor applies only to the
+// outlets that fall in that band, so adding an outlet never lowers demand;
+// the highest-flow outlets take the first (fullest) bands.
+export function getDesignFlow(
+  gasType: string,
+  areaType: AreaType,
+  loads: Array<{ quantity: number; flowRate: number }>
+): number {
+  const { diversity } = getAreaDemand(gasType, areaType);
+  let position = 0;
+  let band = 0;
+  let designFlow = 0;
+
+  [...loads].sort((a, b) => b.flowRate - a.flowRate).forEach(({ quantity, flowRate }) => {
+    let remaining = quantity;
+    while (remaining > 0) {
+      while (band < diversity.length - 1 && position >= diversity[band].maxOutlets) band++;
+      const inBand = band === diversity.length - 1 ? remaining : Math.min(remaining, diversity[band].maxOutlets - position);
+      designFlow += inBand * flowRate * diversity[band].factor;
+      position += inBand;
+      remaining -= inBand;
+    }
+  });
+
+  return designFlow;
+}
+
+// Effective simultaneous-use fraction across an outlet count
+export function getDiversityFactor(gasType: string, areaType: AreaType, outletCount: number): number {
+  if (outletCount <= 0) return 1;
+  return getDesignFlow(gasType, areaType, [{ quantity: outletCount, flowRate: 1 }]) / outletCount;
+}
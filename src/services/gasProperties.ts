@@ -0,0 +1,112 @@
+// Medical Gas Physical Properties
+// Density from the ideal gas law and dynamic viscosity from Sutherland's law,
+// evaluated at line pressure and temperature for pipe sizing calculations
+
+export type GasType = 'oxygen' | 'air' | 'vacuum' | 'co2' | 'n2o' | 'nitrogen' | 'argon' | 'wagd' | 'instrument_air';
+
+export interface GasProperties {
+  name: string;
+  molecularWeight: number; // lb/lbmol
+  referenceViscosity: number; // Pa·s at 273.15 K
+  sutherlandConstant: number; // K
+}
+
+export interface LineConditions {
+  gasType: GasType;
+  absolutePressure: number; // psia
+  temperature: number; // °F
+  density: number; // lb/ft³ at line conditions
+  standardDensity: number; // lb/ft³ at 14.696 psia, 60°F
+  dynamicViscosity: number; // lbm/(ft·s)
+  kinematicViscosity: number; // ft²/s
+}
+
+export const STANDARD_PRESSURE = 14.696; // psia
+export const STANDARD_TEMPERATURE = 60; // °F
+export const DEFAULT_LINE_TEMPERATURE = 70; // °F
+
+const UNIVERSAL_GAS_CONSTANT = 1545.35; // ft·lbf/(lbmol·°R)
+const PA_S_TO_LBM_FT_S = 0.671969;
+export const PSI_PER_IN_HG = 0.49115;
+
+export const GAS_PROPERTIES: Record<GasType, GasProperties> = {
+  oxygen: { name: 'Oxygen', molecularWeight: 31.999, referenceViscosity: 1.919e-5, sutherlandConstant: 139 },
+  air: { name: 'Medical Air', molecularWeight: 28.966, referenceViscosity: 1.716e-5, sutherlandConstant: 110.4 },
+  // Vacuum systems move room air at sub-atmospheric pressure
+  vacuum: { name: 'Medical-Surgical Vacuum', molecularWeight: 28.966, referenceViscosity: 1.716e-5, sutherlandConstant: 110.4 },
+  co2: { name: 'Carbon Dioxide', molecularWeight: 44.01, referenceViscosity: 1.370e-5, sutherlandConstant: 222 },
+  n2o: { name: 'Nitrous Oxide', molecularWeight: 44.013, referenceViscosity: 1.360e-5, sutherlandConstant: 260 },
+  nitrogen: { name: 'Nitrogen', molecularWeight: 28.014, referenceViscosity: 1.663e-5, sutherlandConstant: 107 },
+  argon: { name: 'Argon', molecularWeight: 39.948, referenceViscosity: 2.125e-5, sutherlandConstant: 144 },
+  // WAGD carries room air with trace anesthetic agents at low vacuum
+  wagd: { name: 'Waste Anesthetic Gas Disposal', molecularWeight: 28.966, referenceViscosity: 1.716e-5, sutherlandConstant: 110.4 },
+  instrument_air: { name: 'Instrument Air', molecularWeight: 28.966, referenceViscosity: 1.716e-5, sutherlandConstant: 110.4 }
+};
+
+export function getGasProperties(gasType: string): GasProperties {
+  return GAS_PROPERTIES[gasType as GasType] || GAS_PROPERTIES.air;
+}
+
+const fahrenheitToRankine = (temperature: number) => temperature + 459.67;
+const fahrenheitToKelvin = (temperature: number) => (temperature + 459.67) * 5 / 9;
+
+// Vacuum and WAGD run below atmosphere and are rated in inches Hg
+export function isVacuumService(gasType: string): boolean {
+  return gasType === 'vacuum' || gasType === 'wagd';
+}
+
+export const psiToInHg = (psi: number) => psi / PSI_PER_IN_HG;
+export const inHgToPsi = (inHg: number) => inHg * PSI_PER_IN_HG;
+
+// Absolute line pressure. Gas systems are rated in psig; vacuum in inches Hg below atmosphere.
+export function getAbsolutePressure(gasType: string, pressure: number): number {
+  if (isVacuumService(gasType)) {
+    return Math.max(0.5, STANDARD_PRESSURE - Math.abs(pressure) * PSI_PER_IN_HG);
+  }
+  return STANDARD_PRESSURE + pressure;
+}
+
+// Ideal gas density in lb/ft³
+export function calculateDensity(gasType: string, absolutePressure: number, temperature: number): number {
+  const { molecularWeight } = getGasProperties(gasType);
+  return (absolutePressure * 144 * molecularWeight) / (UNIVERSAL_GAS_CONSTANT * fahrenheitToRankine(temperature));
+}
+
+// Sutherland's law; viscosity of a gas is effectively independent of pressure
+export function calculateDynamicViscosity(gasType: string, temperature: number): number {
+  const { referenceViscosity, sutherlandConstant } = getGasProperties(gasType);
+  const t = fahrenheitToKelvin(temperature);
+  const t0 = 273.15;
+  const viscosity = referenceViscosity * Math.pow(t / t0, 1.5) * (t0 + sutherlandConstant) / (t + sutherlandConstant);
+  return viscosity * PA_S_TO_LBM_FT_S;
+}
+
+export function getLineConditions(
+  gasType: string,
+  pressure: number,
+  temperature: number = DEFAULT_LINE_TEMPERATURE
+): LineConditions {
+  const absolutePressure = getAbsolutePressure(gasType, pressure);
+  const density = calculateDensity(gasType, absolutePressure, temperature);
+  const dynamicViscosity = calculateDynamicViscosity(gasType, temperature);
+
+  return {
+    gasType: (gasType in GAS_PROPERTIES ? gasType : 'air') as GasType,
+    absolutePressure,
+    temperature,
+    density,
+    standardDensity: calculateDensity(gasType, STANDARD_PRESSURE, STANDARD_TEMPERATURE),
+    dynamicViscosity,
+    kinematicViscosity: dynamicViscosity / density
+  };
+}
+
+// Standard cubic feet per minute to actual cubic feet per minute at line conditions;
+// at 19 inHg vacuum one SCFM occupies about 2.7 ACFM
+export function toActualFlow(scfm: number, conditions: LineConditions): number {
+  return scfm * conditions.standardDensity / conditions.density;
+}
+
+export function toStandardFlow(acfm: number, conditions: LineConditions): number {
+  return acfm * conditions.density / conditions.standardDensity;
+}
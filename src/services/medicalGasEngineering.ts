@@ -2,8 +2,34 @@
 // Enterprise-grade engineering calculations for healthcare facilities
 // Compliant with NFPA 99-2021, ASHRAE 170, and industry standards
 
+import { GAS_PIPING_COST_CODES, GAS_SYSTEM_COST_CODES } from '@/lib/pricing/cost-codes';
+import {
+  DEFAULT_LINE_TEMPERATURE,
+  LineConditions,
+  getLineConditions,
+  isVacuumService,
+  psiToInHg,
+  toActualFlow
+} from './gasProperties';
+import {
+  CYLINDER_CAPACITIES,
+  CylinderManifoldSizing,
+  GasSupplyOptions,
+  GasSupplySizing,
+  SourcePlantSizing,
+  SupplyEquipmentLine,
+  plantEquipmentLines,
+  sizeGasSupply,
+  sizeInstrumentAirPlant,
+  sizeMedicalAirPlant,
+  sizeVacuumPlant
+} from './supplySizing';
+import { ValveAlarmLayout, checkValveAlarmCoverage, generateValveAlarmLayout, masterAlarmSignals } from './valveAlarmLayout';
+import { PipingTakeoff, PipingTakeoffOptions, generatePipingTakeoff } from './pipingTakeoff';
+import { AREA_TYPE_LABELS, AreaType, getAreaDemand, getAreaType, getDesignFlow } from './gasDemandTables';
+
 export interface MedicalGasOutlet {
-  type: 'oxygen' | 'air' | 'vacuum' | 'co2' | 'n2o' | 'nitrogen' | 'argon';
+  type: 'oxygen' | 'air' | 'vacuum' | 'co2' | 'n2o' | 'nitrogen' | 'argon' | 'wagd' | 'instrument_air';
   quantity: number;
   flowRate: number; // SCFM for gases, CFM for vacuum
   pressure: number; // PSI
@@ -20,6 +46,8 @@ export interface RoomGasRequirements {
   roomId: string;
   roomName: string;
   roomType: string;
+  floor?: string;
+  department?: string;
   area: number; // sq ft
   ceilingHeight: number; // ft
   outlets: MedicalGasOutlet[];
@@ -37,17 +65,101 @@ export interface SystemPressureRequirements {
     switchover: number;
   };
   backupCapacity: number; // percentage of primary
-  redundancyLevel: 'single' | 'dual' | 'triple';
+  redundancyLevel: RedundancyLevel;
+}
+
+// Source redundancy: N, N+1 or N+2 plant units; stored gases add a duplicate manifold at 'triple'
+export type RedundancyLevel = 'single' | 'dual' | 'triple';
+
+export interface RedundancyComponent {
+  item: string;
+  cost: number;
+  inSourceSizing: boolean; // already priced with the sized plant or supply
+}
+
+export interface RedundancyProvision {
+  level: RedundancyLevel;
+  standbyUnits: number; // plant units beyond design flow
+  duplicateManifold: CylinderManifoldSizing | null;
+  emergencyOxygenConnection: boolean; // EOSC, NFPA 99 5.1.3.5.13
+  components: RedundancyComponent[];
+  cost: number; // duplicated components only
+}
+
+export type CopperTubeType = 'K' | 'L';
+
+// Why a size was chosen: the velocity limit or the pressure-drop allowance
+export type SizingCriterion = 'velocity' | 'pressure_drop';
+
+export interface PipeSizingOptions {
+  allowableDrop?: number; // PSI (inHg for vacuum) over this run; defaults to the whole system budget
+  tubeType?: CopperTubeType; // ASTM B819 wall for copper, Type L unless specified
 }
 
 export interface PipeCalculation {
-  diameter: number; // inches
+  diameter: number; // nominal inches
+  insideDiameter: number; // inches, bore used for velocity and pressure drop
+  tubeType?: CopperTubeType; // copper only
   length: number; // feet
   material: 'copper' | 'stainless_steel' | 'chrome_moly';
   pressureDrop: number; // PSI
-  velocity: number; // ft/sec
+  allowableDrop: number; // PSI (inHg for vacuum) allowed over this run
+  governedBy: SizingCriterion;
+  velocity: number; // ft/sec at line conditions
   flowRate: number; // SCFM
+  actualFlowRate: number; // ACFM at line conditions
+  pressureLoss?: number; // inHg, vacuum services only
   roughness: number; // absolute roughness
+  gasType: string;
+  density: number; // lb/ft³ at line conditions
+}
+
+export interface PipeFitting {
+  type: 'elbow_90' | 'elbow_45' | 'tee_run' | 'tee_branch' | 'ball_valve' | 'check_valve';
+  quantity: number;
+}
+
+export interface SegmentOutletLoad {
+  roomId?: string;
+  areaType?: AreaType; // diversity table to apply; defaults to general care
+  quantity: number;
+  flowRate: number; // SCFM per outlet
+}
+
+export interface PipingSegment {
+  id: string;
+  parentId: string | null; // null for the segment leaving the source
+  length: number; // feet
+  fittings: PipeFitting[];
+  outlets: SegmentOutletLoad[]; // outlets served at the downstream end
+}
+
+export interface PipingNetwork {
+  material: 'copper' | 'stainless_steel' | 'chrome_moly';
+  tubeType?: CopperTubeType;
+  segments: PipingSegment[];
+}
+
+export interface PipeSegmentCalculation extends PipeCalculation {
+  segmentId: string;
+  parentId: string | null;
+  fittings: PipeFitting[];
+  equivalentLength: number; // feet of pipe for fittings
+  connectedFlow: number; // SCFM, all downstream outlets
+  downstreamOutlets: number;
+  cumulativePressureDrop: number; // PSI from source to the end of this segment
+}
+
+export interface DemandZone {
+  gasType: string;
+  areaType: AreaType;
+  areaLabel: string;
+  rooms: string[];
+  outlets: number;
+  flowPerOutlet: number; // SCFM
+  connectedFlow: number; // SCFM, every outlet at full flow
+  diversity: number; // effective simultaneous-use fraction, design over connected flow
+  designFlow: number; // SCFM
 }
 
 export interface ComplianceCheck {
@@ -58,25 +170,41 @@ export interface ComplianceCheck {
 }
 
 export interface MedicalGasSystem {
-  gasType: 'oxygen' | 'air' | 'vacuum' | 'co2' | 'n2o';
-  totalDemand: number; // SCFM
-  peakDemand: number; // SCFM
+  gasType: MedicalGasOutlet['type'];
+  totalDemand: number; // SCFM connected
+  peakDemand: number; // SCFM design flow after diversity
+  demandZones: DemandZone[];
   systemPressure: SystemPressureRequirements;
   distribution: {
-    mainLines: PipeCalculation[];
-    branchLines: PipeCalculation[];
+    mainLines: PipeSegmentCalculation[];
+    branchLines: PipeSegmentCalculation[];
     totalLength: number;
-    totalPressureDrop: number;
+    totalPressureDrop: number; // PSI to the most remote outlet
+    criticalPath: string[]; // segment ids from source to the most remote outlet
+    takeoff: PipingTakeoff | null; // hangers, fittings, brazed joints and priced lines; copper only
   };
   equipment: {
     primarySupply: string;
     backupSupply: string;
+    supply: GasSupplySizing | null; // sized source for cylinder and bulk gases
+    plant: SourcePlantSizing | null; // sized compressors or vacuum pumps
+    redundancy: RedundancyProvision | null;
     manifolds: number;
     regulators: number;
     alarms: string[];
   };
   compliance: ComplianceCheck[];
   estimatedCost: number;
+  costCode: string; // CSI MasterFormat section
+}
+
+export interface EngineeringReportSummary {
+  totalRooms: number;
+  totalOutlets: number;
+  totalSystemCost: number;
+  gasTypesRequired: string[];
+  complianceScore: number; // percent of checks compliant
+  recommendationCount: number;
 }
 
 class MedicalGasEngineering {
@@ -85,123 +213,173 @@ class MedicalGasEngineering {
       operatingPressure: 50, // PSI
       lowPressureAlarm: 45,
       highPressureAlarm: 55,
-      maxVelocity: 25, // ft/sec
-      simultaneousFactor: 0.75 // 75% simultaneous use factor
+      maxVelocity: 25 // ft/sec
     },
     air: {
       operatingPressure: 50,
       lowPressureAlarm: 45,
       highPressureAlarm: 55,
-      maxVelocity: 25,
-      simultaneousFactor: 0.75
+      maxVelocity: 25
     },
     vacuum: {
       operatingPressure: -15, // inches Hg (negative pressure)
-      lowPressureAlarm: -12,
+      lowPressureAlarm: -12, // minimum vacuum at the farthest inlet
       highPressureAlarm: -18,
-      maxVelocity: 5000, // ft/min
-      simultaneousFactor: 0.50
+      maxVelocity: 5000 / 60, // ft/sec (5000 ft/min)
+      maxLossPer100Ft: 1.0 // inHg per 100 ft of pipe at design flow
     },
     n2o: {
       operatingPressure: 50,
       lowPressureAlarm: 45,
       highPressureAlarm: 55,
-      maxVelocity: 25,
-      simultaneousFactor: 0.25
+      maxVelocity: 25
     },
     co2: {
       operatingPressure: 50,
       lowPressureAlarm: 45,
       highPressureAlarm: 55,
-      maxVelocity: 25,
-      simultaneousFactor: 0.25
+      maxVelocity: 25
+    },
+    // Surgical tool drive gases run at 160-200 PSI
+    nitrogen: {
+      operatingPressure: 180,
+      lowPressureAlarm: 160,
+      highPressureAlarm: 200,
+      maxVelocity: 25
+    },
+    instrument_air: {
+      operatingPressure: 180,
+      lowPressureAlarm: 160,
+      highPressureAlarm: 200,
+      maxVelocity: 25
+    },
+    argon: {
+      operatingPressure: 50,
+      lowPressureAlarm: 45,
+      highPressureAlarm: 55,
+      maxVelocity: 25
+    },
+    wagd: {
+      operatingPressure: -15,
+      lowPressureAlarm: -12,
+      highPressureAlarm: -18,
+      maxVelocity: 5000 / 60,
+      maxLossPer100Ft: 1.0
     }
   };
 
+  private readonly STANDBY_UNITS: Record<RedundancyLevel, number> = {
+    single: 0,
+    dual: 1,
+    triple: 2
+  };
+
+  private readonly MANIFOLD_COST = 15000; // header, regulators and changeover controls
+  private readonly EOSC_COST = 6500; // emergency oxygen supply connection at the building wall
+  private readonly PIPING_ALLOWANCE_PER_FOOT = 150; // installed pipe without a takeoff
+
+  // Gas systems piped in every facility; specialty gases are added when rooms call for them
+  private readonly CORE_GAS_TYPES = ['oxygen', 'air', 'vacuum', 'co2', 'n2o'];
+
+  private readonly STANDARD_PIPE_SIZES = [0.5, 0.75, 1, 1.25, 1.5, 2, 2.5, 3, 4, 6, 8]; // inches
+
+  // ASTM B819 inside diameters in inches by nominal size
+  private readonly COPPER_TUBE_BORES: Record<number, Record<CopperTubeType, number>> = {
+    0.5: { K: 0.527, L: 0.545 },
+    0.75: { K: 0.745, L: 0.785 },
+    1: { K: 0.995, L: 1.025 },
+    1.25: { K: 1.245, L: 1.265 },
+    1.5: { K: 1.481, L: 1.505 },
+    2: { K: 1.959, L: 1.985 },
+    2.5: { K: 2.435, L: 2.465 },
+    3: { K: 2.907, L: 2.945 },
+    4: { K: 3.857, L: 3.905 },
+    6: { K: 5.741, L: 5.845 },
+    8: { K: 7.583, L: 7.725 }
+  };
+
   private readonly PIPE_ROUGHNESS = {
     copper: 0.000005, // ft
     stainless_steel: 0.000015,
     chrome_moly: 0.000045
   };
 
-  private readonly FLOW_RATES = {
-    // Standard flow rates per outlet (SCFM)
-    oxygen: {
-      'Operating Room': 15,
-      'ICU': 8,
-      'Emergency Room': 12,
-      'Recovery Room': 6,
-      'Patient Room': 4,
-      'NICU': 10
-    },
-    air: {
-      'Operating Room': 12,
-      'ICU': 6,
-      'Emergency Room': 10,
-      'Recovery Room': 5,
-      'Patient Room': 3,
-      'NICU': 8
-    },
-    vacuum: {
-      'Operating Room': 8,
-      'ICU': 5,
-      'Emergency Room': 6,
-      'Recovery Room': 3,
-      'Patient Room': 2,
-      'NICU': 4
-    }
+  // Equivalent length of fittings in pipe diameters (L/D)
+  private readonly FITTING_EQUIVALENT_LENGTHS = {
+    elbow_90: 30,
+    elbow_45: 16,
+    tee_run: 20,
+    tee_branch: 60,
+    ball_valve: 3,
+    check_valve: 50
   };
 
-  // Calculate total system demand for a facility
-  calculateSystemDemand(rooms: RoomGasRequirements[]): Map<string, MedicalGasSystem> {
+  // Assumed layout when no piping network is supplied
+  private readonly DEFAULT_LAYOUT = {
+    sourceMainLength: 100, // ft from the source to the first take-off
+    minTrunkLength: 20, // ft between take-offs
+    dropLength: 10 // ft from ceiling to outlets
+  };
+
+  // Calculate total system demand for a facility. Piping networks are optional per
+  // gas; systems without one are sized on an assumed trunk-and-branch layout.
+  // Redundancy defaults to 'dual' (N+1) for any gas not listed.
+  calculateSystemDemand(
+    rooms: RoomGasRequirements[],
+    networks: Partial<Record<string, PipingNetwork>> = {},
+    supplyOptions: Partial<GasSupplyOptions> = {},
+    redundancy: Partial<Record<string, RedundancyLevel>> = {},
+    takeoffOptions: Partial<PipingTakeoffOptions> = {}
+  ): Map<string, MedicalGasSystem> {
     const systems = new Map<string, MedicalGasSystem>();
 
     // Initialize systems for each gas type
-    ['oxygen', 'air', 'vacuum', 'co2', 'n2o'].forEach(gasType => {
+    const specialtyGases = rooms
+      .flatMap(room => room.outlets.filter(outlet => outlet.quantity > 0).map(outlet => outlet.type))
+      .filter(gasType => !this.CORE_GAS_TYPES.includes(gasType));
+    Array.from(new Set([...this.CORE_GAS_TYPES, ...specialtyGases])).forEach(gasType => {
       systems.set(gasType, {
-        gasType: gasType as any,
+        gasType: gasType as MedicalGasOutlet['type'],
         totalDemand: 0,
         peakDemand: 0,
-        systemPressure: this.getSystemPressureRequirements(gasType),
+        demandZones: [],
+        systemPressure: this.getSystemPressureRequirements(gasType, redundancy[gasType]),
         distribution: {
           mainLines: [],
           branchLines: [],
           totalLength: 0,
-          totalPressureDrop: 0
+          totalPressureDrop: 0,
+          criticalPath: [],
+          takeoff: null
         },
         equipment: {
           primarySupply: '',
           backupSupply: '',
+          supply: null,
+          plant: null,
+          redundancy: null,
           manifolds: 0,
           regulators: 0,
           alarms: []
         },
         compliance: [],
-        estimatedCost: 0
+        estimatedCost: 0,
+        costCode: GAS_SYSTEM_COST_CODES[gasType]
       });
     });
 
-    // Calculate demand for each room and gas type
-    rooms.forEach(room => {
-      room.outlets.forEach(outlet => {
-        const system = systems.get(outlet.type);
-        if (system) {
-          const roomDemand = this.calculateRoomDemand(room, outlet);
-          system.totalDemand += roomDemand.totalDemand;
-          system.peakDemand += roomDemand.peakDemand;
-        }
-      });
-    });
-
-    // Apply simultaneous use factors and calculate final demands
+    // Apply diversity per zone and calculate final demands
     systems.forEach((system, gasType) => {
-      const standards = this.NFPA99_STANDARDS[gasType as keyof typeof this.NFPA99_STANDARDS];
-      if (standards) {
-        system.peakDemand = system.totalDemand * standards.simultaneousFactor;
-      }
+      system.demandZones = this.calculateDemandZones(rooms, gasType);
+      system.totalDemand = system.demandZones.reduce((sum, zone) => sum + zone.connectedFlow, 0);
+      system.peakDemand = system.demandZones.reduce((sum, zone) => sum + zone.designFlow, 0);
+
+      // Size the distribution network from source to outlets
+      const network = networks[gasType] ?? this.buildDefaultNetwork(rooms, gasType);
+      system.distribution = this.analyzeNetwork(network, gasType, system.systemPressure.operatingPressure, takeoffOptions);
 
       // Calculate equipment requirements
-      this.calculateEquipmentRequirements(system);
+      this.calculateEquipmentRequirements(system, supplyOptions);
 
       // Perform compliance checks
       system.compliance = this.performComplianceChecks(system, gasType);
@@ -213,100 +391,405 @@ class MedicalGasEngineering {
     return systems;
   }
 
-  // Calculate demand for a specific room and outlet type
-  private calculateRoomDemand(room: RoomGasRequirements, outlet: MedicalGasOutlet) {
-    const baseFlowRate = this.getBaseFlowRate(outlet.type, room.roomType);
-    const totalDemand = outlet.quantity * baseFlowRate;
-    const peakDemand = totalDemand * outlet.simultaneousFactor;
+  // Group outlets into zones by area type and apply the tabulated diversity
+  // band by band across each zone's outlets
+  calculateDemandZones(rooms: RoomGasRequirements[], gasType: string): DemandZone[] {
+    const loads: SegmentOutletLoad[] = [];
+    const roomNames = new Map<string, string>();
+
+    rooms.forEach(room => {
+      const areaType = getAreaType(room.roomType);
+      room.outlets
+        .filter(outlet => outlet.type === gasType && outlet.quantity > 0)
+        .forEach(outlet => {
+          roomNames.set(room.roomId, room.roomName);
+          loads.push({
+            roomId: room.roomId,
+            areaType,
+            quantity: outlet.quantity,
+            flowRate: outlet.flowRate > 0 ? outlet.flowRate : this.getBaseFlowRate(gasType, room.roomType)
+          });
+        });
+    });
+
+    return this.diversify(loads, gasType).map(zone => ({
+      ...zone,
+      rooms: zone.rooms.map(roomId => roomNames.get(roomId) ?? roomId)
+    }));
+  }
+
+  private diversify(loads: SegmentOutletLoad[], gasType: string): DemandZone[] {
+    const zones = new Map<AreaType, DemandZone & { loads: SegmentOutletLoad[]; largestOutlet: number }>();
+
+    loads.forEach(load => {
+      const areaType = load.areaType ?? 'general_care';
+      const zone = zones.get(areaType) ?? {
+        gasType,
+        areaType,
+        areaLabel: AREA_TYPE_LABELS[areaType],
+        rooms: [],
+        outlets: 0,
+        flowPerOutlet: 0,
+        connectedFlow: 0,
+        diversity: 1,
+        designFlow: 0,
+        loads: [],
+        largestOutlet: 0
+      };
+      if (load.roomId && !zone.rooms.includes(load.roomId)) zone.rooms.push(load.roomId);
+      zone.loads.push(load);
+      zone.outlets += load.quantity;
+      zone.connectedFlow += load.quantity * load.flowRate;
+      zone.largestOutlet = Math.max(zone.largestOutlet, load.flowRate);
+      zones.set(areaType, zone);
+    });
+
+    return Array.from(zones.values()).map(({ loads: zoneLoads, largestOutlet, ...zone }) => {
+      // Diversity never reduces a zone below one outlet at full flow
+      const designFlow = Math.min(zone.connectedFlow, Math.max(largestOutlet, getDesignFlow(gasType, zone.areaType, zoneLoads)));
+      return {
+        ...zone,
+        flowPerOutlet: zone.outlets > 0 ? zone.connectedFlow / zone.outlets : 0,
+        diversity: zone.connectedFlow > 0 ? designFlow / zone.connectedFlow : 1,
+        designFlow
+      };
+    });
+  }
+
+  // Tabulated per-outlet flow for the room's area type
+  private getBaseFlowRate(gasType: string, roomType: string): number {
+    return getAreaDemand(gasType, getAreaType(roomType)).flowRate;
+  }
+
+  // Assumed layout: a main from the source, then one trunk segment per room
+  // with a branch (zone valve, drop and outlets) to the room
+  buildDefaultNetwork(rooms: RoomGasRequirements[], gasType: string): PipingNetwork {
+    const segments: PipingSegment[] = [];
+    let parentId: string | null = null;
+
+    rooms.forEach(room => {
+      const outlets = room.outlets
+        .filter(outlet => outlet.type === gasType && outlet.quantity > 0)
+        .map(outlet => ({
+          roomId: room.roomId,
+          areaType: getAreaType(room.roomType),
+          quantity: outlet.quantity,
+          flowRate: outlet.flowRate > 0 ? outlet.flowRate : this.getBaseFlowRate(gasType, room.roomType)
+        }));
+      if (outlets.length === 0) return;
+
+      const roomWidth = Math.sqrt(Math.max(room.area, 0));
+      const trunkId = `trunk-${room.roomId}`;
+      segments.push({
+        id: trunkId,
+        parentId,
+        length: parentId === null
+          ? this.DEFAULT_LAYOUT.sourceMainLength
+          : Math.max(this.DEFAULT_LAYOUT.minTrunkLength, roomWidth),
+        fittings: parentId === null
+          ? [{ type: 'elbow_90', quantity: 4 }, { type: 'ball_valve', quantity: 1 }]
+          : [{ type: 'tee_run', quantity: 1 }],
+        outlets: []
+      });
+      segments.push({
+        id: `branch-${room.roomId}`,
+        parentId: trunkId,
+        length: roomWidth / 2 + this.DEFAULT_LAYOUT.dropLength,
+        fittings: [
+          { type: 'tee_branch', quantity: 1 },
+          { type: 'elbow_90', quantity: 3 },
+          { type: 'ball_valve', quantity: 1 }
+        ],
+        outlets
+      });
+      parentId = trunkId;
+    });
+
+    return { material: 'copper', segments };
+  }
+
+  // Size every segment on its diversified downstream flow and accumulate
+  // pressure drop from the source to each outlet. The gas's drop budget is spread
+  // evenly over the developed length (pipe plus fitting equivalent length) of the
+  // longest run, so each segment may lose the same amount per foot.
+  analyzeNetwork(
+    network: PipingNetwork,
+    gasType: string,
+    pressure: number,
+    takeoffOptions: Partial<PipingTakeoffOptions> = {}
+  ): MedicalGasSystem['distribution'] {
+    const children = new Map<string | null, PipingSegment[]>();
+    network.segments.forEach(segment => {
+      const siblings = children.get(segment.parentId) ?? [];
+      siblings.push(segment);
+      children.set(segment.parentId, siblings);
+    });
+
+    // Downstream outlet loads per segment
+    const downstream = new Map<string, SegmentOutletLoad[]>();
+    const collect = (segment: PipingSegment): SegmentOutletLoad[] => {
+      const loads = [...segment.outlets];
+      (children.get(segment.id) ?? []).forEach(child => loads.push(...collect(child)));
+      downstream.set(segment.id, loads);
+      return loads;
+    };
+    (children.get(null) ?? []).forEach(collect);
+
+    const designFlows = new Map(network.segments.map(segment => [
+      segment.id,
+      this.diversify(downstream.get(segment.id) ?? [], gasType).reduce((sum, zone) => sum + zone.designFlow, 0)
+    ]));
+    const fittingLength = (segment: PipingSegment, insideDiameter: number) => segment.fittings.reduce((sum, fitting) =>
+      sum + fitting.quantity * this.FITTING_EQUIVALENT_LENGTHS[fitting.type] * insideDiameter / 12, 0);
+    const sizePipe = (segment: PipingSegment, allowableDrop: number) => this.calculatePipeSizing(
+      designFlows.get(segment.id) ?? 0, pressure, segment.length, network.material, gasType,
+      DEFAULT_LINE_TEMPERATURE, { allowableDrop, tubeType: network.tubeType }
+    );
+
+    // Fittings are counted at the velocity-sized bore when laying out the budget
+    const developedLengths = new Map(network.segments.map(segment => [
+      segment.id,
+      segment.length + fittingLength(segment, sizePipe(segment, Infinity).insideDiameter)
+    ]));
+    const longestRun = (segment: PipingSegment, upstream: number): number => {
+      const run = upstream + (developedLengths.get(segment.id) ?? 0);
+      return Math.max(
+        segment.outlets.length > 0 ? run : 0,
+        ...(children.get(segment.id) ?? []).map(child => longestRun(child, run))
+      );
+    };
+    const criticalLength = Math.max(0, ...(children.get(null) ?? []).map(segment => longestRun(segment, 0)));
+    const budget = this.getPressureDropBudget(gasType);
+
+    const mainLines: PipeSegmentCalculation[] = [];
+    const branchLines: PipeSegmentCalculation[] = [];
+    let totalPressureDrop = 0;
+    let criticalPath: string[] = [];
+
+    const size = (segment: PipingSegment, upstreamDrop: number, path: string[]) => {
+      const loads = downstream.get(segment.id) ?? [];
+      const connectedFlow = loads.reduce((sum, load) => sum + load.quantity * load.flowRate, 0);
+
+      const pipe = sizePipe(segment, criticalLength > 0 ? budget * segment.length / criticalLength : budget);
+      const equivalentLength = fittingLength(segment, pipe.insideDiameter);
+      const developedFactor = segment.length > 0 ? (segment.length + equivalentLength) / segment.length : 0;
+      const pressureDrop = pipe.pressureDrop * developedFactor;
+      const cumulativePressureDrop = upstreamDrop + pressureDrop;
+      const segmentPath = [...path, segment.id];
+
+      const next = children.get(segment.id) ?? [];
+      const calculation: PipeSegmentCalculation = {
+        ...pipe,
+        pressureDrop,
+        pressureLoss: pipe.pressureLoss === undefined ? undefined : psiToInHg(pressureDrop),
+        allowableDrop: pipe.allowableDrop * developedFactor,
+        segmentId: segment.id,
+        parentId: segment.parentId,
+        fittings: segment.fittings,
+        equivalentLength,
+        connectedFlow,
+        downstreamOutlets: loads.reduce((sum, load) => sum + load.quantity, 0),
+        cumulativePressureDrop
+      };
+      (next.length > 0 ? mainLines : branchLines).push(calculation);
+
+      if (segment.outlets.length > 0 && cumulativePressureDrop > totalPressureDrop) {
+        totalPressureDrop = cumulativePressureDrop;
+        criticalPath = segmentPath;
+      }
+
+      next.forEach(child => size(child, cumulativePressureDrop, segmentPath));
+    };
+    (children.get(null) ?? []).forEach(segment => size(segment, 0, []));
 
     return {
-      totalDemand,
-      peakDemand,
-      pressure: outlet.pressure
+      mainLines,
+      branchLines,
+      totalLength: network.segments.reduce((sum, segment) => sum + segment.length, 0),
+      totalPressureDrop,
+      criticalPath,
+      takeoff: generatePipingTakeoff([...mainLines, ...branchLines], { ...takeoffOptions, costCode: GAS_PIPING_COST_CODES[gasType] })
     };
   }
 
-  // Get base flow rate for gas type and room type
-  private getBaseFlowRate(gasType: string, roomType: string): number {
-    const flowRates = this.FLOW_RATES[gasType as keyof typeof this.FLOW_RATES];
-    if (flowRates) {
-      return flowRates[roomType as keyof typeof flowRates] || 5; // Default 5 SCFM
+  // Calculate pipe sizing using Darcy-Weisbach equation. Flow is in SCFM; velocity and
+  // pressure drop use the gas's actual density and viscosity at line conditions through
+  // the tube's actual bore. Pressure is psig for gases and inches Hg vacuum for vacuum
+  // services. The smallest size meeting both the velocity limit and the drop allowance wins.
+  calculatePipeSizing(
+    flowRate: number,
+    pressure: number,
+    length: number,
+    material: string,
+    gasType: string,
+    temperature: number = DEFAULT_LINE_TEMPERATURE,
+    options: PipeSizingOptions = {}
+  ): PipeCalculation {
+    if (isVacuumService(gasType)) {
+      return this.calculateVacuumPipeSizing(flowRate, pressure, length, material, gasType, temperature, options);
     }
-    return 5;
-  }
 
-  // Calculate pipe sizing using Darcy-Weisbach equation
-  calculatePipeSizing(flowRate: number, pressure: number, length: number, material: string): PipeCalculation {
     const roughness = this.PIPE_ROUGHNESS[material as keyof typeof this.PIPE_ROUGHNESS] || 0.000015;
+    const conditions = getLineConditions(gasType, pressure, temperature);
+    const actualFlowRate = toActualFlow(flowRate, conditions);
+    const allowableDrop = options.allowableDrop ?? this.getPressureDropBudget(gasType);
+    const tubeType = material === 'copper' ? options.tubeType ?? 'L' : undefined;
 
-    // Try different pipe diameters to find optimal size
-    const standardSizes = [0.5, 0.75, 1, 1.25, 1.5, 2, 2.5, 3, 4, 6, 8]; // inches
+    return this.selectPipeSize(diameter => {
+      const insideDiameter = this.getInsideDiameter(diameter, tubeType);
+      const area = Math.PI * Math.pow(insideDiameter / 12 / 2, 2); // sq ft
+      const velocity = (actualFlowRate / 60) / area; // ft/sec
+      const pressureDrop = this.calculatePressureDrop(insideDiameter, length, roughness, velocity, conditions);
 
-    for (const diameter of standardSizes) {
-      const area = Math.PI * Math.pow(diameter / 12 / 2, 2); // sq ft
-      const velocity = (flowRate / 60) / area; // ft/sec
+      return {
+        diameter,
+        insideDiameter,
+        tubeType,
+        length,
+        material: material as PipeCalculation['material'],
+        pressureDrop,
+        allowableDrop,
+        velocity,
+        flowRate,
+        actualFlowRate,
+        roughness,
+        gasType,
+        density: conditions.density
+      };
+    }, this.getMaxVelocity(gasType));
+  }
 
-      // Check velocity limits
-      const maxVelocity = (gasType: string) => {
-        if (gasType === 'vacuum') return 5000 / 60; // Convert ft/min to ft/sec
-        return 25; // ft/sec for gases
+  // Vacuum piping is sized on pressure loss in inHg at design flow as well as velocity.
+  // Design flow is SCFM; the pipe carries the expanded ACFM at the vacuum level. The
+  // NFPA loss rate per 100 ft applies even when a larger allowance is passed in.
+  calculateVacuumPipeSizing(
+    flowRate: number,
+    vacuumLevel: number,
+    length: number,
+    material: string,
+    gasType: string = 'vacuum',
+    temperature: number = DEFAULT_LINE_TEMPERATURE,
+    options: PipeSizingOptions = {}
+  ): PipeCalculation {
+    const roughness = this.PIPE_ROUGHNESS[material as keyof typeof this.PIPE_ROUGHNESS] || 0.000015;
+    const conditions = getLineConditions(gasType, vacuumLevel, temperature);
+    const actualFlowRate = toActualFlow(flowRate, conditions);
+    const maxLoss = this.getVacuumStandards(gasType).maxLossPer100Ft * length / 100;
+    const allowableDrop = Math.min(maxLoss, options.allowableDrop ?? Infinity);
+    const tubeType = material === 'copper' ? options.tubeType ?? 'L' : undefined;
+
+    return this.selectPipeSize(diameter => {
+      const insideDiameter = this.getInsideDiameter(diameter, tubeType);
+      const area = Math.PI * Math.pow(insideDiameter / 12 / 2, 2); // sq ft
+      const velocity = (actualFlowRate / 60) / area; // ft/sec
+      const pressureDrop = this.calculatePressureDrop(insideDiameter, length, roughness, velocity, conditions);
+
+      return {
+        diameter,
+        insideDiameter,
+        tubeType,
+        length,
+        material: material as PipeCalculation['material'],
+        pressureDrop,
+        allowableDrop,
+        velocity,
+        flowRate,
+        actualFlowRate,
+        pressureLoss: psiToInHg(pressureDrop),
+        roughness,
+        gasType,
+        density: conditions.density
       };
+    }, this.getMaxVelocity(gasType));
+  }
 
-      if (velocity <= maxVelocity('oxygen')) {
-        const pressureDrop = this.calculatePressureDrop(flowRate, diameter, length, roughness, velocity);
-
-        return {
-          diameter,
-          length,
-          material: material as any,
-          pressureDrop,
-          velocity,
-          flowRate,
-          roughness
-        };
+  // Smallest standard size within both limits. Velocity falls as the pipe grows, so any
+  // size skipped after the velocity limit is met was rejected on drop alone. If even
+  // the largest size fails, it is returned with the criterion it still misses.
+  private selectPipeSize(
+    sizeFor: (diameter: number) => Omit<PipeCalculation, 'governedBy'>,
+    maxVelocity: number
+  ): PipeCalculation {
+    const withinDrop = (calculation: Omit<PipeCalculation, 'governedBy'>) =>
+      (calculation.pressureLoss ?? calculation.pressureDrop) <= calculation.allowableDrop;
+    let governedBy: SizingCriterion = 'velocity';
+
+    for (const diameter of this.STANDARD_PIPE_SIZES) {
+      const calculation = sizeFor(diameter);
+      if (calculation.velocity > maxVelocity) continue;
+      if (withinDrop(calculation)) {
+        return { ...calculation, governedBy };
       }
+      governedBy = 'pressure_drop';
     }
 
     // Default to largest size if no suitable size found
-    const diameter = 8;
-    const area = Math.PI * Math.pow(diameter / 12 / 2, 2);
-    const velocity = (flowRate / 60) / area;
-    const pressureDrop = this.calculatePressureDrop(flowRate, diameter, length, roughness, velocity);
+    const largest = sizeFor(this.STANDARD_PIPE_SIZES[this.STANDARD_PIPE_SIZES.length - 1]);
+    return { ...largest, governedBy: largest.velocity > maxVelocity ? 'velocity' : 'pressure_drop' };
+  }
 
-    return {
-      diameter,
-      length,
-      material: material as any,
-      pressureDrop,
-      velocity,
-      flowRate,
-      roughness
-    };
+  // Copper uses the ASTM B819 bore; other materials are sized on the nominal size
+  private getInsideDiameter(diameter: number, tubeType?: CopperTubeType): number {
+    return tubeType ? this.COPPER_TUBE_BORES[diameter]?.[tubeType] ?? diameter : diameter;
+  }
+
+  private getVacuumStandards(gasType: string) {
+    return gasType === 'wagd' ? this.NFPA99_STANDARDS.wagd : this.NFPA99_STANDARDS.vacuum;
+  }
+
+  // Velocity limit in ft/sec
+  private getMaxVelocity(gasType: string): number {
+    if (isVacuumService(gasType)) return this.getVacuumStandards(gasType).maxVelocity;
+    const standards = this.NFPA99_STANDARDS[gasType as keyof typeof this.NFPA99_STANDARDS];
+    return standards?.maxVelocity ?? 25;
+  }
+
+  // Drop budget from the source to the most remote outlet: the margin between operating
+  // pressure and the low-pressure alarm, in PSI (inHg for vacuum, which must hold the
+  // low-vacuum alarm level at the farthest inlet)
+  getPressureDropBudget(gasType: string): number {
+    const standards = isVacuumService(gasType)
+      ? this.getVacuumStandards(gasType)
+      : this.NFPA99_STANDARDS[gasType as keyof typeof this.NFPA99_STANDARDS];
+    return standards ? Math.abs(standards.operatingPressure) - Math.abs(standards.lowPressureAlarm) : 5;
+  }
+
+  // Drop to the most remote outlet against the budget, in the system's own units
+  private getPressureDropAllowance(system: MedicalGasSystem): { drop: number; limit: number; unit: string } {
+    const limit = this.getPressureDropBudget(system.gasType);
+    if (isVacuumService(system.gasType)) {
+      return { drop: psiToInHg(system.distribution.totalPressureDrop), limit, unit: 'inHg' };
+    }
+    return { drop: system.distribution.totalPressureDrop, limit, unit: 'PSI' };
   }
 
   // Calculate pressure drop using Darcy-Weisbach equation
-  private calculatePressureDrop(flowRate: number, diameter: number, length: number, roughness: number, velocity: number): number {
-    const reynoldsNumber = this.calculateReynoldsNumber(velocity, diameter);
+  calculatePressureDrop(
+    diameter: number,
+    length: number,
+    roughness: number,
+    velocity: number,
+    conditions: LineConditions
+  ): number {
+    const reynoldsNumber = this.calculateReynoldsNumber(velocity, diameter, conditions.kinematicViscosity);
     const frictionFactor = this.calculateFrictionFactor(reynoldsNumber, roughness, diameter);
 
     // Darcy-Weisbach equation: ΔP = f * (L/D) * (ρ * V²) / (2 * gc)
-    const densityAir = 0.075; // lb/ft³ at standard conditions
     const gc = 32.174; // lbm⋅ft/(lbf⋅s²)
 
-    const pressureDrop = frictionFactor * (length / (diameter / 12)) * (densityAir * Math.pow(velocity, 2)) / (2 * gc);
+    const pressureDrop = frictionFactor * (length / (diameter / 12)) * (conditions.density * Math.pow(velocity, 2)) / (2 * gc);
 
     // Convert to PSI
     return pressureDrop / 144; // PSI
   }
 
   // Calculate Reynolds number
-  private calculateReynoldsNumber(velocity: number, diameter: number): number {
-    const kinematicViscosity = 1.57e-4; // ft²/s for air at standard conditions
+  private calculateReynoldsNumber(velocity: number, diameter: number, kinematicViscosity: number): number {
     return (velocity * diameter / 12) / kinematicViscosity;
   }
 
   // Calculate friction factor using Colebrook equation
-  private calculateFrictionFactor(reynoldsNumber: number, roughness: number, diameter: number): number {
+  calculateFrictionFactor(reynoldsNumber: number, roughness: number, diameter: number): number {
     // Swamee-Jain approximation for Colebrook equation
     const relativeRoughness = roughness / (diameter / 12);
     const factor = 0.25 / Math.pow(
@@ -316,7 +799,11 @@ class MedicalGasEngineering {
   }
 
   // Get system pressure requirements based on gas type
-  private getSystemPressureRequirements(gasType: string): SystemPressureRequirements {
+  private getSystemPressureRequirements(
+    gasType: string,
+    redundancyLevel: RedundancyLevel = 'dual'
+  ): SystemPressureRequirements {
+    const backupCapacity = redundancyLevel === 'single' ? 0 : 100;
     const standards = this.NFPA99_STANDARDS[gasType as keyof typeof this.NFPA99_STANDARDS];
 
     if (!standards) {
@@ -327,8 +814,8 @@ class MedicalGasEngineering {
           lowPressure: 45,
           switchover: 42
         },
-        backupCapacity: 100,
-        redundancyLevel: 'dual'
+        backupCapacity,
+        redundancyLevel
       };
     }
 
@@ -339,13 +826,13 @@ class MedicalGasEngineering {
         lowPressure: Math.abs(standards.lowPressureAlarm),
         switchover: Math.abs(standards.lowPressureAlarm) - 3
       },
-      backupCapacity: 100,
-      redundancyLevel: 'dual'
+      backupCapacity,
+      redundancyLevel
     };
   }
 
   // Calculate equipment requirements
-  private calculateEquipmentRequirements(system: MedicalGasSystem) {
+  private calculateEquipmentRequirements(system: MedicalGasSystem, supplyOptions: Partial<GasSupplyOptions> = {}) {
     // Primary supply sizing
     system.equipment.primarySupply = this.getPrimarySupplyRecommendation(system.gasType, system.peakDemand);
 
@@ -355,16 +842,111 @@ class MedicalGasEngineering {
     // Manifold requirements
     system.equipment.manifolds = system.peakDemand > 100 ? 2 : 1;
 
+    // Bulk vessel and cylinder manifold sizing for stored gases
+    if (system.gasType in CYLINDER_CAPACITIES && system.peakDemand > 0) {
+      const supply = sizeGasSupply(system.gasType, system.peakDemand, supplyOptions);
+      system.equipment.supply = supply;
+      system.equipment.primarySupply = supply.description;
+      if (supply.reserveManifold) {
+        const reserve = supply.reserveManifold;
+        system.equipment.backupSupply =
+          `Reserve cylinder manifold (${reserve.banks} x ${reserve.cylindersPerBank} ${reserve.cylinderType} cylinders, automatic switchover)`;
+      }
+      system.equipment.manifolds = (supply.primaryManifold ? 1 : 0) + (supply.reserveManifold ? 1 : 0);
+    }
+
+    // Compressor, vacuum pump and WAGD plants, sized with the standby units out of service
+    const plant = this.sizeSourcePlant(system);
+    if (plant) {
+      const noun = isVacuumService(system.gasType) ? 'pump' : 'compressor';
+      system.equipment.plant = plant;
+      system.equipment.primarySupply = plant.description;
+      system.equipment.backupSupply = plant.standbyUnits > 0
+        ? `${plant.standbyUnits} ${noun}${plant.standbyUnits === 1 ? '' : 's'} on standby (${plant.firmCapacity.toFixed(1)} SCFM firm capacity)`
+        : `No standby ${noun}`;
+      system.equipment.manifolds = 0;
+    }
+
+    system.equipment.redundancy = this.calculateRedundancy(system);
+
     // Regulator requirements
     system.equipment.regulators = Math.ceil(system.peakDemand / 50); // One regulator per 50 SCFM
 
-    // Alarm requirements
-    system.equipment.alarms = [
-      'Master alarm panel',
-      'Local pressure switches',
-      'Automatic switchover',
-      'Remote monitoring capability'
-    ];
+    // Master alarm signals for this source and main line
+    system.equipment.alarms = masterAlarmSignals(system);
+  }
+
+  private sizeSourcePlant(system: MedicalGasSystem): SourcePlantSizing | null {
+    if (system.peakDemand <= 0) return null;
+    const { operatingPressure, redundancyLevel } = system.systemPressure;
+    const standbyUnits = this.STANDBY_UNITS[redundancyLevel];
+    switch (system.gasType) {
+      case 'air':
+        return sizeMedicalAirPlant(system.peakDemand, operatingPressure, undefined, standbyUnits);
+      case 'instrument_air':
+        return sizeInstrumentAirPlant(system.peakDemand, operatingPressure, undefined, standbyUnits);
+      case 'vacuum':
+      case 'wagd':
+        return sizeVacuumPlant(system.peakDemand, system.gasType, standbyUnits);
+      default:
+        return null;
+    }
+  }
+
+  // Only the duplicated parts of the source are priced as redundancy: standby plant
+  // units, the secondary or reserve supply, a duplicate manifold and the EOSC
+  private calculateRedundancy(system: MedicalGasSystem): RedundancyProvision | null {
+    const { plant, supply } = system.equipment;
+    if (!plant && !supply) return null;
+
+    const level = system.systemPressure.redundancyLevel;
+    const components: RedundancyComponent[] = [];
+    let duplicateManifold: CylinderManifoldSizing | null = null;
+    let emergencyOxygenConnection = false;
+
+    if (plant && plant.standbyUnits > 0) {
+      components.push({
+        item: `${plant.standbyUnits} standby ${plant.technologyLabel.toLowerCase()} unit${plant.standbyUnits === 1 ? '' : 's'}`,
+        cost: plant.standbyCost,
+        inSourceSizing: true
+      });
+    }
+
+    if (supply) {
+      // A duplex manifold's secondary bank, or the reserve behind a bulk vessel
+      if (supply.primaryManifold) {
+        components.push({ item: 'Secondary cylinder bank', cost: supply.primaryManifold.cost / 2, inSourceSizing: true });
+      }
+      if (supply.reserveManifold) {
+        components.push({ item: 'Reserve cylinder manifold', cost: supply.reserveManifold.cost, inSourceSizing: true });
+      }
+
+      if (level === 'triple') {
+        duplicateManifold = supply.primaryManifold ?? supply.reserveManifold;
+        if (duplicateManifold) {
+          components.push({
+            item: 'Duplicate cylinder manifold',
+            cost: duplicateManifold.cost + this.MANIFOLD_COST,
+            inSourceSizing: false
+          });
+        }
+      }
+
+      // Bulk oxygen outside the building needs an EOSC (NFPA 99 5.1.3.5.13)
+      emergencyOxygenConnection = system.gasType === 'oxygen' && (supply.kind === 'bulk_liquid' || level === 'triple');
+      if (emergencyOxygenConnection) {
+        components.push({ item: 'Emergency oxygen supply connection', cost: this.EOSC_COST, inSourceSizing: false });
+      }
+    }
+
+    return {
+      level,
+      standbyUnits: plant?.standbyUnits ?? 0,
+      duplicateManifold,
+      emergencyOxygenConnection,
+      components,
+      cost: components.reduce((sum, component) => sum + component.cost, 0)
+    };
   }
 
   // Get primary supply recommendation
@@ -408,7 +990,7 @@ class MedicalGasEngineering {
   }
 
   // Perform NFPA 99 compliance checks
-  private performComplianceChecks(system: MedicalGasSystem, gasType: string): ComplianceCheck[] {
+  performComplianceChecks(system: MedicalGasSystem, gasType: string): ComplianceCheck[] {
     const checks: ComplianceCheck[] = [];
 
     // Pressure compliance
@@ -438,26 +1020,74 @@ class MedicalGasEngineering {
       notes: `${system.equipment.alarms.length} alarm features specified`
     });
 
-    // Pressure drop compliance
-    if (system.distribution.totalPressureDrop > 5) {
+    // Velocity compliance for every sized segment
+    const segments = [...system.distribution.mainLines, ...system.distribution.branchLines];
+    const maxVelocity = this.getMaxVelocity(gasType);
+    const overVelocity = segments.filter(segment => segment.velocity > maxVelocity);
+    if (segments.length > 0) {
       checks.push({
-        standard: 'NFPA 99-2021 Section 5.1.3.6',
-        requirement: 'Total pressure drop should not exceed 5 PSI',
-        status: 'warning',
-        notes: `Total pressure drop: ${system.distribution.totalPressureDrop.toFixed(2)} PSI`
+        standard: 'NFPA 99-2021 Section 5.1.10',
+        requirement: `Pipe velocity should not exceed ${maxVelocity.toFixed(0)} ft/sec`,
+        status: overVelocity.length === 0 ? 'compliant' : 'non_compliant',
+        notes: overVelocity.length === 0
+          ? `${segments.length} segments within velocity limits`
+          : `Segments over limit: ${overVelocity.map(segment => segment.segmentId).join(', ')}`
       });
-    } else {
+    }
+
+    // Pressure drop compliance, to the most remote outlet
+    const { drop, limit, unit } = this.getPressureDropAllowance(system);
+    checks.push({
+      standard: 'NFPA 99-2021 Section 5.1.3.6',
+      requirement: `Total pressure drop should not exceed ${limit} ${unit}`,
+      status: drop > limit ? 'warning' : 'compliant',
+      notes: `Total pressure drop: ${drop.toFixed(2)} ${unit}`
+    });
+
+    // Compressor and vacuum plants must carry peak demand with a unit out of service
+    const plant = system.equipment.plant;
+    if (plant) {
       checks.push({
-        standard: 'NFPA 99-2021 Section 5.1.3.6',
-        requirement: 'Total pressure drop should not exceed 5 PSI',
-        status: 'compliant',
-        notes: `Total pressure drop: ${system.distribution.totalPressureDrop.toFixed(2)} PSI`
+        standard: isVacuumService(gasType) ? 'NFPA 99-2021 Section 5.1.3.7' : 'NFPA 99-2021 Section 5.1.3.6',
+        requirement: 'Source plant meets peak demand with the largest unit out of service',
+        status: plant.standbyUnits > 0 && plant.firmCapacity >= plant.designFlow ? 'compliant' : 'non_compliant',
+        notes: `${plant.units} units, ${plant.standbyUnits} on standby, ${plant.firmCapacity.toFixed(1)} SCFM firm capacity against ${plant.designFlow.toFixed(1)} SCFM design flow`
       });
     }
 
     return checks;
   }
 
+  // Zone valve and area alarm coverage for every room that requires it
+  private performCoverageChecks(rooms: RoomGasRequirements[], layout: ValveAlarmLayout): ComplianceCheck[] {
+    const { missingValves, missingAlarms } = checkValveAlarmCoverage(rooms, layout);
+
+    return [
+      {
+        standard: 'NFPA 99-2021 Section 5.1.4.8',
+        requirement: 'Zone valve for every gas serving each piped room',
+        status: missingValves.length === 0 ? 'compliant' : 'non_compliant',
+        notes: missingValves.length === 0
+          ? `${layout.zoneValveBoxes.length} zone valve boxes cover all piped rooms`
+          : `No zone valve coverage: ${missingValves.join(', ')}`
+      },
+      {
+        standard: 'NFPA 99-2021 Section 5.1.9.3',
+        requirement: 'Area alarm for anesthetizing and critical care locations',
+        status: missingAlarms.length === 0 ? 'compliant' : 'non_compliant',
+        notes: missingAlarms.length === 0
+          ? `${layout.areaAlarms.length} area alarm panels cover all required rooms`
+          : `No area alarm coverage: ${missingAlarms.join(', ')}`
+      },
+      {
+        standard: 'NFPA 99-2021 Section 5.1.9.2',
+        requirement: 'Two master alarm panels in separate locations',
+        status: layout.masterAlarms.length >= 2 ? 'compliant' : 'warning',
+        notes: `${layout.masterAlarms.length} master alarm panels, ${layout.masterAlarms[0]?.signals.length ?? 0} signals each`
+      }
+    ];
+  }
+
   // Calculate system cost
   private calculateSystemCost(system: MedicalGasSystem): number {
     let cost = 0;
@@ -488,11 +1118,34 @@ class MedicalGasEngineering {
         low: 20000,
         medium: 50000,
         high: 120000
+      },
+      nitrogen: {
+        low: 15000,
+        medium: 40000,
+        high: 100000
+      },
+      argon: {
+        low: 12000,
+        medium: 30000,
+        high: 80000
+      },
+      instrument_air: {
+        low: 30000,
+        medium: 75000,
+        high: 200000
+      },
+      wagd: {
+        low: 25000,
+        medium: 60000,
+        high: 150000
       }
     };
 
     const gasTypeCosts = baseCosts[system.gasType as keyof typeof baseCosts];
-    if (gasTypeCosts) {
+    if (system.equipment.supply || system.equipment.plant) {
+      // Sized source equipment replaces the demand-band allowance
+      cost += (system.equipment.supply?.cost ?? 0) + (system.equipment.plant?.cost ?? 0);
+    } else if (gasTypeCosts) {
       if (system.peakDemand > 200) {
         cost += gasTypeCosts.high;
       } else if (system.peakDemand > 50) {
@@ -502,34 +1155,42 @@ class MedicalGasEngineering {
       }
     }
 
-    // Add piping costs
-    const pipingCost = system.distribution.totalLength * 150; // $150 per linear foot
-    cost += pipingCost;
+    // Add piping costs from the material and labor takeoff; materials without
+    // takeoff data fall back to a per-foot allowance
+    cost += system.distribution.takeoff
+      ? system.distribution.takeoff.totalCost
+      : system.distribution.totalLength * this.PIPING_ALLOWANCE_PER_FOOT;
 
     // Add equipment costs
-    cost += system.equipment.manifolds * 15000; // $15k per manifold
+    cost += system.equipment.manifolds * this.MANIFOLD_COST;
     cost += system.equipment.regulators * 2500; // $2.5k per regulator
-    cost += system.equipment.alarms.length * 5000; // $5k per alarm feature
+    // Zone valves and alarm panels are priced facility-wide in the valve and alarm layout
 
-    // Redundancy multiplier
-    const redundancyMultipliers = {
-      single: 1.0,
-      dual: 1.4,
-      triple: 1.8
-    };
-    cost *= redundancyMultipliers[system.systemPressure.redundancyLevel];
+    // Duplicated components not already priced with the source
+    cost += (system.equipment.redundancy?.components ?? [])
+      .filter(component => !component.inSourceSizing)
+      .reduce((sum, component) => sum + component.cost, 0);
 
     return Math.round(cost);
   }
 
   // Generate engineering report
-  generateEngineeringReport(rooms: RoomGasRequirements[]): {
-    summary: any;
+  generateEngineeringReport(
+    rooms: RoomGasRequirements[],
+    networks: Partial<Record<string, PipingNetwork>> = {},
+    supplyOptions: Partial<GasSupplyOptions> = {},
+    redundancy: Partial<Record<string, RedundancyLevel>> = {},
+    takeoffOptions: Partial<PipingTakeoffOptions> = {}
+  ): {
+    summary: EngineeringReportSummary;
     systems: Map<string, MedicalGasSystem>;
+    demand: DemandZone[];
+    valveAlarmLayout: ValveAlarmLayout;
     recommendations: string[];
     compliance: ComplianceCheck[];
+    sourceEquipment: SupplyEquipmentLine[];
   } {
-    const systems = this.calculateSystemDemand(rooms);
+    const systems = this.calculateSystemDemand(rooms, networks, supplyOptions, redundancy, takeoffOptions);
     const allCompliance: ComplianceCheck[] = [];
     const recommendations: string[] = [];
 
@@ -538,9 +1199,14 @@ class MedicalGasEngineering {
       allCompliance.push(...system.compliance);
     });
 
+    // Zone valves, area alarms and master alarms for the whole facility
+    const valveAlarmLayout = generateValveAlarmLayout(rooms, systems);
+    allCompliance.push(...this.performCoverageChecks(rooms, valveAlarmLayout));
+
     // Generate recommendations
     systems.forEach((system, gasType) => {
-      if (system.distribution.totalPressureDrop > 3) {
+      const { drop, limit } = this.getPressureDropAllowance(system);
+      if (drop > limit * 0.6) {
         recommendations.push(`Consider larger pipe sizes for ${gasType} system to reduce pressure drop`);
       }
 
@@ -548,6 +1214,10 @@ class MedicalGasEngineering {
         recommendations.push(`High simultaneous use factor for ${gasType} - consider increasing backup capacity`);
       }
 
+      if (!system.distribution.takeoff && system.distribution.totalLength > 0) {
+        recommendations.push(`No piping takeoff for ${networks[gasType]?.material.replace('_', ' ')} ${gasType} piping - priced at a per-foot allowance`);
+      }
+
       const nonCompliantChecks = system.compliance.filter(c => c.status === 'non_compliant');
       if (nonCompliantChecks.length > 0) {
         recommendations.push(`Address ${nonCompliantChecks.length} compliance issues for ${gasType} system`);
@@ -555,12 +1225,13 @@ class MedicalGasEngineering {
     });
 
     // Calculate summary
-    const totalCost = Array.from(systems.values()).reduce((sum, system) => sum + system.estimatedCost, 0);
+    const totalCost = Array.from(systems.values()).reduce((sum, system) => sum + system.estimatedCost, 0)
+      + valveAlarmLayout.totalCost;
     const totalOutlets = rooms.reduce((sum, room) =>
       sum + room.outlets.reduce((outletSum, outlet) => outletSum + outlet.quantity, 0), 0
     );
 
-    const summary = {
+    const summary: EngineeringReportSummary = {
       totalRooms: rooms.length,
       totalOutlets,
       totalSystemCost: totalCost,
@@ -569,11 +1240,21 @@ class MedicalGasEngineering {
       recommendationCount: recommendations.length
     };
 
+    // Demand calculation per zone: outlets, per-outlet flow, diversity and design flow
+    const demand = Array.from(systems.values()).flatMap(system => system.demandZones);
+
+    // Sized compressors, pumps, receivers and dryers as estimate equipment lines
+    const sourceEquipment = Array.from(systems.values())
+      .flatMap(system => system.equipment.plant ? plantEquipmentLines(system.equipment.plant) : []);
+
     return {
       summary,
       systems,
+      demand,
+      valveAlarmLayout,
       recommendations,
-      compliance: allCompliance
+      compliance: allCompliance,
+      sourceEquipment
     };
   }
 
@@ -604,10 +1285,11 @@ class MedicalGasEngineering {
     }
 
     // Check pressure drop
-    if (system.distribution.totalPressureDrop > 5) {
-      errors.push(`Total pressure drop (${system.distribution.totalPressureDrop.toFixed(2)} PSI) exceeds NFPA 99 limits`);
-    } else if (system.distribution.totalPressureDrop > 3) {
-      warnings.push(`Pressure drop (${system.distribution.totalPressureDrop.toFixed(2)} PSI) is high - consider larger pipes`);
+    const { drop, limit, unit } = this.getPressureDropAllowance(system);
+    if (drop > limit) {
+      errors.push(`Total pressure drop (${drop.toFixed(2)} ${unit}) exceeds NFPA 99 limits`);
+    } else if (drop > limit * 0.6) {
+      warnings.push(`Pressure drop (${drop.toFixed(2)} ${unit}) is high - consider larger pipes`);
     }
 
     return {
@@ -0,0 +1,196 @@
+// Medical Gas Piping Takeoff
+// Hanger and support schedule per NFPA 99-2021 Table 5.1.10.4.5, thermal expansion,
+// fitting and brazed joint counts, and nitrogen-purge brazing labor for sized copper segments
+
+import { DEFAULT_LABOR_RATES } from '@/lib/pricing/rate-tables';
+import type { PricedSplit } from '@/lib/pricing/labor-material';
+import type { CopperTubeType, PipeSegmentCalculation } from './medicalGasEngineering';
+
+export interface PipingTakeoffOptions {
+  temperatureRise: number; // °F between installation and the warmest operating condition
+  laborRate: number; // $ per hour, pipefitter crew from the estimate's rate table
+  costCode: string; // CSI MasterFormat section for the takeoff lines
+}
+
+export interface SegmentTakeoff {
+  segmentId: string;
+  diameter: number; // nominal inches
+  length: number; // feet
+  supportSpacing: number; // feet between hangers
+  hangers: number;
+  thermalExpansion: number; // inches over the segment for the temperature rise
+  expansionOffsetRequired: boolean;
+  elbows: number;
+  tees: number;
+  valves: number;
+  couplings: number;
+  brazedJoints: number;
+}
+
+export interface TakeoffLine extends PricedSplit {
+  item: string;
+  costCode: string;
+  quantity: number;
+  unit: 'LF' | 'EA';
+}
+
+export interface PipingTakeoff {
+  segments: SegmentTakeoff[];
+  lines: TakeoffLine[];
+  totalLength: number; // feet
+  hangers: number;
+  brazedJoints: number;
+  expansionOffsets: number;
+  laborHours: number;
+  laborCost: number;
+  materialCost: number;
+  totalCost: number;
+}
+
+interface TubeSizeData {
+  size: number; // nominal inches
+  supportSpacing: number; // feet, NFPA 99 Table 5.1.10.4.5
+  tubeCost: number; // $ per foot of Type L, cleaned and capped for oxygen service
+  tubeHours: number; // hours per foot to hang and align
+  fittingCost: number; // $ per wrought copper elbow or tee
+  valveCost: number; // $ per ball or check valve with brazed extensions
+  hangerCost: number; // $ per copper-clad clevis hanger with rod
+  brazeHours: number; // hours per joint including nitrogen purge setup
+}
+
+export const DEFAULT_TAKEOFF_OPTIONS: PipingTakeoffOptions = {
+  temperatureRise: 50,
+  laborRate: DEFAULT_LABOR_RATES.crewRates.pipefitter,
+  costCode: '22 63 13'
+};
+
+const COPPER_TUBE_DATA: TubeSizeData[] = [
+  { size: 0.5, supportSpacing: 6, tubeCost: 4.5, tubeHours: 0.08, fittingCost: 6, valveCost: 90, hangerCost: 12, brazeHours: 0.25 },
+  { size: 0.75, supportSpacing: 7, tubeCost: 7, tubeHours: 0.09, fittingCost: 9, valveCost: 110, hangerCost: 12, brazeHours: 0.3 },
+  { size: 1, supportSpacing: 8, tubeCost: 9.5, tubeHours: 0.1, fittingCost: 14, valveCost: 150, hangerCost: 14, brazeHours: 0.35 },
+  { size: 1.25, supportSpacing: 9, tubeCost: 13, tubeHours: 0.11, fittingCost: 22, valveCost: 210, hangerCost: 15, brazeHours: 0.4 },
+  { size: 1.5, supportSpacing: 10, tubeCost: 16, tubeHours: 0.12, fittingCost: 30, valveCost: 270, hangerCost: 16, brazeHours: 0.45 },
+  { size: 2, supportSpacing: 11, tubeCost: 25, tubeHours: 0.14, fittingCost: 48, valveCost: 380, hangerCost: 20, brazeHours: 0.55 },
+  { size: 2.5, supportSpacing: 12, tubeCost: 38, tubeHours: 0.16, fittingCost: 95, valveCost: 750, hangerCost: 26, brazeHours: 0.7 },
+  { size: 3, supportSpacing: 13, tubeCost: 52, tubeHours: 0.18, fittingCost: 140, valveCost: 1000, hangerCost: 30, brazeHours: 0.85 },
+  { size: 4, supportSpacing: 15, tubeCost: 85, tubeHours: 0.22, fittingCost: 260, valveCost: 1600, hangerCost: 38, brazeHours: 1.1 },
+  { size: 6, supportSpacing: 17, tubeCost: 160, tubeHours: 0.3, fittingCost: 650, valveCost: 3200, hangerCost: 55, brazeHours: 1.6 },
+  { size: 8, supportSpacing: 18, tubeCost: 280, tubeHours: 0.4, fittingCost: 1300, valveCost: 5200, hangerCost: 75, brazeHours: 2.2 }
+];
+
+// Type K's heavier wall carries more copper per foot; fittings are the same wrought pattern
+const TUBE_TYPE_COST_FACTORS: Record<CopperTubeType, number> = { K: 1.3, L: 1 };
+
+const COPPER_EXPANSION_COEFFICIENT = 9.8e-6; // in/in/°F
+const EXPANSION_OFFSET_THRESHOLD = 1.0; // inches of growth before a run needs an offset or loop
+const TUBE_LENGTH = 20; // feet per hard-drawn tube length
+const HANGER_INSTALL_HOURS = 0.3;
+
+// Brazed joints per fitting; a tee is counted once, on its branch
+const JOINTS_PER_ELBOW = 2;
+const JOINTS_PER_TEE = 3;
+const JOINTS_PER_VALVE = 2;
+const JOINTS_PER_COUPLING = 2;
+
+function getTubeData(diameter: number): TubeSizeData {
+  return COPPER_TUBE_DATA.find(row => row.size >= diameter) ?? COPPER_TUBE_DATA[COPPER_TUBE_DATA.length - 1];
+}
+
+const FRACTIONS: Record<string, string> = { '0.25': '1/4', '0.5': '1/2', '0.75': '3/4' };
+
+export function formatNominalSize(diameter: number): string {
+  const whole = Math.floor(diameter);
+  const fraction = FRACTIONS[String(diameter - whole)];
+  if (!fraction) return `${diameter}"`;
+  return whole > 0 ? `${whole}-${fraction}"` : `${fraction}"`;
+}
+
+export function takeoffSegment(segment: PipeSegmentCalculation, temperatureRise: number): SegmentTakeoff {
+  const data = getTubeData(segment.diameter);
+  const count = (types: string[]) => segment.fittings
+    .filter(fitting => types.includes(fitting.type))
+    .reduce((sum, fitting) => sum + fitting.quantity, 0);
+
+  const elbows = count(['elbow_90', 'elbow_45']);
+  const tees = count(['tee_branch']);
+  const valves = count(['ball_valve', 'check_valve']);
+  const couplings = Math.max(0, Math.ceil(segment.length / TUBE_LENGTH) - 1);
+  const thermalExpansion = COPPER_EXPANSION_COEFFICIENT * segment.length * 12 * temperatureRise;
+
+  return {
+    segmentId: segment.segmentId,
+    diameter: segment.diameter,
+    length: segment.length,
+    supportSpacing: data.supportSpacing,
+    hangers: Math.ceil(segment.length / data.supportSpacing),
+    thermalExpansion,
+    expansionOffsetRequired: thermalExpansion > EXPANSION_OFFSET_THRESHOLD,
+    elbows,
+    tees,
+    valves,
+    couplings,
+    brazedJoints: elbows * JOINTS_PER_ELBOW + tees * JOINTS_PER_TEE
+      + valves * JOINTS_PER_VALVE + couplings * JOINTS_PER_COUPLING
+  };
+}
+
+// Copper networks only; stainless steel and chrome-moly have no takeoff data and return null
+export function generatePipingTakeoff(
+  segments: PipeSegmentCalculation[],
+  options: Partial<PipingTakeoffOptions> = {}
+): PipingTakeoff | null {
+  if (segments.some(segment => segment.material !== 'copper')) return null;
+
+  const settings = { ...DEFAULT_TAKEOFF_OPTIONS, ...options };
+  const segmentTakeoffs = segments.map(segment => takeoffSegment(segment, settings.temperatureRise));
+
+  // Lines grouped by item description and size
+  const lines = new Map<string, TakeoffLine>();
+  const addLine = (item: string, unit: TakeoffLine['unit'], quantity: number, materialCost: number, laborHours: number) => {
+    if (quantity <= 0) return;
+    const line = lines.get(item)
+      ?? { item, costCode: settings.costCode, quantity: 0, unit, laborHours: 0, laborCost: 0, materialCost: 0, total: 0 };
+    const laborCost = laborHours * settings.laborRate;
+    line.quantity += quantity;
+    line.laborHours += laborHours;
+    line.laborCost += laborCost;
+    line.materialCost += materialCost;
+    line.total += laborCost + materialCost;
+    lines.set(item, line);
+  };
+
+  segmentTakeoffs.forEach((takeoff, index) => {
+    const data = getTubeData(takeoff.diameter);
+    const size = formatNominalSize(data.size);
+    const tubeType = segments[index].tubeType ?? 'L';
+
+    addLine(`Type ${tubeType} copper tube, ASTM B819, ${size}`, 'LF', takeoff.length,
+      takeoff.length * data.tubeCost * TUBE_TYPE_COST_FACTORS[tubeType], takeoff.length * data.tubeHours);
+    addLine(`Elbow, wrought copper, ${size}`, 'EA', takeoff.elbows, takeoff.elbows * data.fittingCost, 0);
+    addLine(`Tee, wrought copper, ${size}`, 'EA', takeoff.tees, takeoff.tees * data.fittingCost, 0);
+    addLine(`Coupling, wrought copper, ${size}`, 'EA', takeoff.couplings, takeoff.couplings * data.fittingCost / 2, 0);
+    addLine(`Valve with brazed extensions, ${size}`, 'EA', takeoff.valves, takeoff.valves * data.valveCost, 0);
+    addLine(`Clevis hanger, copper-clad, ${size}`, 'EA', takeoff.hangers,
+      takeoff.hangers * data.hangerCost, takeoff.hangers * HANGER_INSTALL_HOURS);
+    addLine(`Brazed joint with nitrogen purge, ${size}`, 'EA', takeoff.brazedJoints,
+      0, takeoff.brazedJoints * data.brazeHours);
+  });
+
+  const takeoffLines = Array.from(lines.values());
+  const laborHours = takeoffLines.reduce((sum, line) => sum + line.laborHours, 0);
+  const laborCost = takeoffLines.reduce((sum, line) => sum + line.laborCost, 0);
+  const materialCost = takeoffLines.reduce((sum, line) => sum + line.materialCost, 0);
+
+  return {
+    segments: segmentTakeoffs,
+    lines: takeoffLines,
+    totalLength: segmentTakeoffs.reduce((sum, takeoff) => sum + takeoff.length, 0),
+    hangers: segmentTakeoffs.reduce((sum, takeoff) => sum + takeoff.hangers, 0),
+    brazedJoints: segmentTakeoffs.reduce((sum, takeoff) => sum + takeoff.brazedJoints, 0),
+    expansionOffsets: segmentTakeoffs.filter(takeoff => takeoff.expansionOffsetRequired).length,
+    laborHours,
+    laborCost,
+    materialCost,
+    totalCost: laborCost + materialCost
+  };
+}
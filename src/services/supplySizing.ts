@@ -0,0 +1,451 @@
+// Medical Gas Source Equipment Sizing
+// Converts design flow to daily consumption and sizes bulk liquid oxygen
+// vessels and high-pressure cylinder manifolds for a number of days of autonomy,
+// and sizes medical air, instrument air, vacuum and WAGD plants per NFPA 99
+
+import { GAS_SYSTEM_COST_CODES } from '@/lib/pricing/cost-codes';
+
+export type CylinderType = 'H' | 'K';
+
+export interface GasSupplyOptions {
+  usageHours: number; // hours per day at design flow
+  autonomyDays: number; // days between bulk deliveries or bank changes
+  reserveDays: number; // emergency reserve behind a bulk vessel (NFPA 99 minimum is one average day)
+  cylinderType: CylinderType;
+}
+
+export interface CylinderManifoldSizing {
+  cylinderType: CylinderType;
+  cylinderCapacity: number; // scf per cylinder
+  banks: number;
+  cylindersPerBank: number;
+  totalCylinders: number;
+  suppliedDays: number; // days one bank lasts at the daily consumption
+  cost: number;
+}
+
+export interface BulkVesselSizing {
+  requiredGallons: number; // liquid, including the unusable heel
+  tankGallons: number; // selected standard vessel
+  autonomyDays: number; // days between deliveries with the selected vessel
+  cost: number;
+}
+
+export interface GasSupplySizing {
+  gasType: string;
+  kind: 'bulk_liquid' | 'cylinder_manifold';
+  designFlow: number; // SCFM
+  usageHours: number;
+  dailyConsumption: number; // scf per day
+  bulkVessel: BulkVesselSizing | null;
+  primaryManifold: CylinderManifoldSizing | null;
+  reserveManifold: CylinderManifoldSizing | null;
+  description: string;
+  cost: number;
+}
+
+export const DEFAULT_SUPPLY_OPTIONS: GasSupplyOptions = {
+  usageHours: 12,
+  autonomyDays: 7,
+  reserveDays: 1,
+  cylinderType: 'H'
+};
+
+// Gas content per full cylinder in scf at 70°F
+export const CYLINDER_CAPACITIES: Record<string, Record<CylinderType, number>> = {
+  oxygen: { H: 244, K: 282 },
+  n2o: { H: 562, K: 562 },
+  co2: { H: 437, K: 437 },
+  nitrogen: { H: 224, K: 261 },
+  argon: { H: 229, K: 265 }
+};
+
+const SCF_PER_GALLON_LOX = 115; // gaseous oxygen per gallon of liquid
+const BULK_USABLE_FRACTION = 0.8; // reorder level leaves a heel in the vessel
+const BULK_THRESHOLD_SCF_PER_DAY = 5000; // above ~20 H cylinders a day, bulk is the practical source
+const STANDARD_TANK_GALLONS = [525, 900, 1500, 3000, 6000, 9000, 11000, 13000, 15000];
+
+const BULK_VESSEL_BASE_COST = 40000; // pad, vaporizers, controls
+const BULK_VESSEL_COST_PER_GALLON = 35;
+const CYLINDER_POSITION_COST = 450; // header, pigtail and check valve per cylinder
+
+// ===== SIZING =====
+
+export function calculateDailyConsumption(designFlow: number, usageHours: number): number {
+  return designFlow * 60 * usageHours;
+}
+
+// Duplex manifold: two banks with automatic changeover, each holding the required supply
+export function sizeCylinderManifold(
+  gasType: string,
+  requiredScf: number,
+  dailyConsumption: number,
+  cylinderType: CylinderType
+): CylinderManifoldSizing {
+  const cylinderCapacity = (CYLINDER_CAPACITIES[gasType] ?? CYLINDER_CAPACITIES.oxygen)[cylinderType];
+  const banks = 2;
+  const cylindersPerBank = Math.max(1, Math.ceil(requiredScf / cylinderCapacity));
+  const totalCylinders = banks * cylindersPerBank;
+
+  return {
+    cylinderType,
+    cylinderCapacity,
+    banks,
+    cylindersPerBank,
+    totalCylinders,
+    suppliedDays: dailyConsumption > 0 ? (cylindersPerBank * cylinderCapacity) / dailyConsumption : Infinity,
+    cost: totalCylinders * CYLINDER_POSITION_COST
+  };
+}
+
+export function sizeBulkVessel(dailyConsumption: number, autonomyDays: number): BulkVesselSizing {
+  const requiredGallons = (dailyConsumption * autonomyDays) / SCF_PER_GALLON_LOX / BULK_USABLE_FRACTION;
+  const tankGallons = STANDARD_TANK_GALLONS.find(size => size >= requiredGallons)
+    ?? STANDARD_TANK_GALLONS[STANDARD_TANK_GALLONS.length - 1];
+
+  return {
+    requiredGallons,
+    tankGallons,
+    autonomyDays: dailyConsumption > 0
+      ? (tankGallons * BULK_USABLE_FRACTION * SCF_PER_GALLON_LOX) / dailyConsumption
+      : Infinity,
+    cost: BULK_VESSEL_BASE_COST + tankGallons * BULK_VESSEL_COST_PER_GALLON
+  };
+}
+
+// Oxygen above the bulk threshold gets a liquid vessel with a reserve manifold;
+// everything else is a duplex cylinder manifold whose banks share the autonomy period
+export function sizeGasSupply(
+  gasType: string,
+  designFlow: number,
+  options: Partial<GasSupplyOptions> = {}
+): GasSupplySizing {
+  const settings = { ...DEFAULT_SUPPLY_OPTIONS, ...options };
+  const dailyConsumption = calculateDailyConsumption(designFlow, settings.usageHours);
+  const useBulk = gasType === 'oxygen' && dailyConsumption > BULK_THRESHOLD_SCF_PER_DAY;
+
+  if (useBulk) {
+    const bulkVessel = sizeBulkVessel(dailyConsumption, settings.autonomyDays);
+    const reserveManifold = sizeCylinderManifold(
+      gasType,
+      dailyConsumption * settings.reserveDays,
+      dailyConsumption,
+      settings.cylinderType
+    );
+
+    return {
+      gasType,
+      kind: 'bulk_liquid',
+      designFlow,
+      usageHours: settings.usageHours,
+      dailyConsumption,
+      bulkVessel,
+      primaryManifold: null,
+      reserveManifold,
+      description: `Liquid oxygen bulk tank (${bulkVessel.tankGallons.toLocaleString()} gallon, ${bulkVessel.autonomyDays.toFixed(1)} days)`,
+      cost: bulkVessel.cost + reserveManifold.cost
+    };
+  }
+
+  const primaryManifold = sizeCylinderManifold(
+    gasType,
+    dailyConsumption * settings.autonomyDays / 2,
+    dailyConsumption,
+    settings.cylinderType
+  );
+
+  return {
+    gasType,
+    kind: 'cylinder_manifold',
+    designFlow,
+    usageHours: settings.usageHours,
+    dailyConsumption,
+    bulkVessel: null,
+    primaryManifold,
+    reserveManifold: null,
+    description: `High-pressure cylinder manifold (${primaryManifold.banks} x ${primaryManifold.cylindersPerBank} ${primaryManifold.cylinderType} cylinders)`,
+    cost: primaryManifold.cost
+  };
+}
+
+// ===== COMPRESSOR AND VACUUM PLANTS =====
+
+export type CompressorTechnology = 'scroll' | 'reciprocating' | 'rotary_screw';
+export type VacuumTechnology = 'rotary_vane' | 'claw' | 'liquid_ring';
+export type PlantGasType = 'air' | 'instrument_air' | 'vacuum' | 'wagd';
+
+interface PlantTechnology {
+  label: string;
+  scfmPerHorsepower: number;
+  maxUnitHorsepower: number;
+  baseCost: number;
+  costPerHorsepower: number;
+}
+
+export interface DryerSizing {
+  type: 'desiccant';
+  count: number; // duplexed, each rated for the full plant
+  capacity: number; // SCFM per dryer
+  pressureDewPoint: number; // °F at line pressure
+  purgeFlow: number; // SCFM lost to regeneration
+  moistureLoad: number; // lb/hr of water removed at design flow
+  unitCost: number;
+}
+
+export interface SourcePlantSizing {
+  gasType: PlantGasType;
+  technology: CompressorTechnology | VacuumTechnology;
+  technologyLabel: string;
+  designFlow: number; // SCFM the plant must meet
+  units: number;
+  standbyUnits: number; // units beyond those needed to meet design flow (N+1, N+2)
+  arrangement: string; // simplex through hexplex
+  unitHorsepower: number;
+  unitCapacity: number; // SCFM per unit
+  firmCapacity: number; // SCFM with the standby units out of service
+  receiverGallons: number;
+  dryer: DryerSizing | null;
+  unitCost: number;
+  receiverCost: number;
+  standbyCost: number; // installed cost of the standby units alone
+  description: string;
+  cost: number;
+}
+
+export interface SupplyEquipmentLine {
+  name: string;
+  category: string;
+  costCode: string;
+  quantity: number;
+  unitCost: number;
+  installationCost: number;
+  powerRequirement?: string;
+  description?: string;
+  maintenanceRequired: boolean;
+}
+
+const PLANT_NAMES: Record<PlantGasType, { unit: string; units: string; receiver: string }> = {
+  air: { unit: 'medical air compressor', units: 'compressors', receiver: 'Air' },
+  instrument_air: { unit: 'instrument air compressor', units: 'compressors', receiver: 'Instrument air' },
+  vacuum: { unit: 'vacuum pump', units: 'vacuum pumps', receiver: 'Vacuum' },
+  wagd: { unit: 'WAGD producer', units: 'WAGD producers', receiver: 'WAGD' }
+};
+
+const COMPRESSOR_TECHNOLOGIES: Record<CompressorTechnology, PlantTechnology> = {
+  scroll: { label: 'Oil-less scroll', scfmPerHorsepower: 2.8, maxUnitHorsepower: 7.5, baseCost: 6000, costPerHorsepower: 1800 },
+  reciprocating: { label: 'Oil-less reciprocating', scfmPerHorsepower: 3.5, maxUnitHorsepower: 15, baseCost: 8000, costPerHorsepower: 1500 },
+  rotary_screw: { label: 'Oil-free rotary screw', scfmPerHorsepower: 4.2, maxUnitHorsepower: 100, baseCost: 15000, costPerHorsepower: 1200 }
+};
+
+const VACUUM_TECHNOLOGIES: Record<VacuumTechnology, PlantTechnology> = {
+  rotary_vane: { label: 'Lubricated rotary vane', scfmPerHorsepower: 4.0, maxUnitHorsepower: 10, baseCost: 5000, costPerHorsepower: 1500 },
+  claw: { label: 'Dry claw', scfmPerHorsepower: 5.0, maxUnitHorsepower: 20, baseCost: 9000, costPerHorsepower: 1600 },
+  liquid_ring: { label: 'Liquid ring', scfmPerHorsepower: 3.0, maxUnitHorsepower: 60, baseCost: 12000, costPerHorsepower: 1200 }
+};
+
+const STANDARD_MOTOR_HORSEPOWER = [1, 1.5, 2, 3, 5, 7.5, 10, 15, 20, 25, 30, 40, 50, 60, 75, 100];
+const STANDARD_RECEIVER_GALLONS = [30, 60, 80, 120, 200, 240, 400, 500, 660, 1000, 1550];
+const ARRANGEMENTS = ['simplex', 'duplex', 'triplex', 'quadruplex', 'pentaplex', 'hexplex'];
+
+const COMPRESSOR_CUT_IN = 80; // psig
+const COMPRESSOR_CUT_OUT = 100; // psig
+const COMPRESSOR_CYCLE_MINUTES = 1; // minimum run time the receiver must cover
+const VACUUM_RECEIVER_GALLONS_PER_SCFM = 2; // design-guide rule of thumb
+const GALLONS_PER_CUBIC_FOOT = 7.48;
+
+export const MEDICAL_AIR_DEW_POINT = 32; // °F pressure dew point; NFPA 99 requires below frost at any demand
+export const INSTRUMENT_AIR_DEW_POINT = -40; // °F pressure dew point at 160-200 psi
+const DRYER_INLET_TEMPERATURE = 100; // °F after the aftercooler
+const DESICCANT_PURGE_FRACTION = 0.15;
+const AIR_LB_PER_SCFM_HOUR = 0.0763 * 60;
+
+const RECEIVER_BASE_COST = 1500;
+const RECEIVER_COST_PER_GALLON = 8;
+const DRYER_BASE_COST = 4000;
+const DRYER_COST_PER_SCFM = 60;
+const INSTALLATION_FRACTION = 0.25;
+
+function roundUp(value: number, sizes: number[]): number {
+  return sizes.find(size => size >= value) ?? sizes[sizes.length - 1];
+}
+
+// Magnus approximation, psia
+function saturationPressure(temperature: number): number {
+  const celsius = (temperature - 32) * 5 / 9;
+  const hectopascals = 6.112 * Math.exp(17.62 * celsius / (243.12 + celsius));
+  return hectopascals * 0.0145038;
+}
+
+// Water removed bringing saturated discharge air down to the design dew point
+function calculateMoistureLoad(flow: number, linePressure: number, dewPoint: number): number {
+  const absolutePressure = linePressure + 14.696;
+  const humidityRatio = (temperature: number) => {
+    const vaporPressure = saturationPressure(temperature);
+    return 0.622 * vaporPressure / (absolutePressure - vaporPressure);
+  };
+  return flow * AIR_LB_PER_SCFM_HOUR * (humidityRatio(DRYER_INLET_TEMPERATURE) - humidityRatio(dewPoint));
+}
+
+// Smallest arrangement and technology that meets the design flow with the
+// standby units out of service (NFPA 99 5.1.3.6 / 5.1.3.7 require at least one).
+// Duty units are added until one technology's unit carries its share.
+function selectUnits<T extends string>(
+  designFlow: number,
+  technologies: Record<T, PlantTechnology>,
+  standbyUnits: number
+): { technology: T; units: number; unitHorsepower: number; unitCapacity: number } {
+  if (!Number.isFinite(designFlow) || designFlow < 0) {
+    throw new Error(`Cannot size a source plant for ${designFlow} SCFM`);
+  }
+
+  const options = Object.keys(technologies) as T[];
+  for (let dutyUnits = 1; ; dutyUnits++) {
+    for (const technology of options) {
+      const spec = technologies[technology];
+      const requiredHorsepower = designFlow / dutyUnits / spec.scfmPerHorsepower;
+
+      if (requiredHorsepower <= spec.maxUnitHorsepower) {
+        const unitHorsepower = roundUp(requiredHorsepower, STANDARD_MOTOR_HORSEPOWER);
+        return { technology, units: dutyUnits + standbyUnits, unitHorsepower, unitCapacity: unitHorsepower * spec.scfmPerHorsepower };
+      }
+    }
+  }
+}
+
+function buildPlant<T extends CompressorTechnology | VacuumTechnology>(
+  gasType: PlantGasType,
+  designFlow: number,
+  technologies: Record<T, PlantTechnology>,
+  receiverFor: (firmCapacity: number) => number,
+  dryer: (firmCapacity: number) => DryerSizing | null,
+  standbyUnits: number
+): SourcePlantSizing {
+  const selection = selectUnits(designFlow, technologies, standbyUnits);
+  const spec = technologies[selection.technology];
+  const firmCapacity = (selection.units - standbyUnits) * selection.unitCapacity;
+  const receiverGallons = roundUp(receiverFor(firmCapacity), STANDARD_RECEIVER_GALLONS);
+  const dryerSizing = dryer(firmCapacity);
+
+  const unitCost = spec.baseCost + spec.costPerHorsepower * selection.unitHorsepower;
+  const receiverCost = RECEIVER_BASE_COST + RECEIVER_COST_PER_GALLON * receiverGallons;
+  const arrangement = ARRANGEMENTS[selection.units - 1] ?? `${selection.units}-unit`;
+  const equipmentCost = unitCost * selection.units + receiverCost + (dryerSizing ? dryerSizing.unitCost * dryerSizing.count : 0);
+
+  return {
+    gasType,
+    technology: selection.technology,
+    technologyLabel: spec.label,
+    designFlow,
+    units: selection.units,
+    standbyUnits,
+    arrangement,
+    unitHorsepower: selection.unitHorsepower,
+    unitCapacity: selection.unitCapacity,
+    firmCapacity,
+    receiverGallons,
+    dryer: dryerSizing,
+    unitCost,
+    receiverCost,
+    standbyCost: Math.round(unitCost * standbyUnits * (1 + INSTALLATION_FRACTION)),
+    description: `${arrangement.charAt(0).toUpperCase()}${arrangement.slice(1)} ${spec.label.toLowerCase()} ${PLANT_NAMES[gasType].units} (${selection.units} x ${selection.unitHorsepower} HP, ${receiverGallons} gal receiver)`,
+    cost: Math.round(equipmentCost * (1 + INSTALLATION_FRACTION))
+  };
+}
+
+// Desiccant purge is drawn from the compressors, so it is added to the design flow
+function sizeCompressorPlant(
+  gasType: 'air' | 'instrument_air',
+  designFlow: number,
+  linePressure: number,
+  dewPoint: number,
+  standbyUnits: number
+): SourcePlantSizing {
+  const plantFlow = designFlow * (1 + DESICCANT_PURGE_FRACTION);
+
+  return buildPlant(gasType, plantFlow, COMPRESSOR_TECHNOLOGIES,
+    firmCapacity => GALLONS_PER_CUBIC_FOOT * COMPRESSOR_CYCLE_MINUTES * firmCapacity * 14.696 / (COMPRESSOR_CUT_OUT - COMPRESSOR_CUT_IN),
+    firmCapacity => ({
+      type: 'desiccant',
+      count: 2,
+      capacity: firmCapacity,
+      pressureDewPoint: dewPoint,
+      purgeFlow: designFlow * DESICCANT_PURGE_FRACTION,
+      moistureLoad: calculateMoistureLoad(firmCapacity, linePressure, dewPoint),
+      unitCost: DRYER_BASE_COST + DRYER_COST_PER_SCFM * firmCapacity
+    }),
+    standbyUnits);
+}
+
+export function sizeMedicalAirPlant(
+  designFlow: number,
+  linePressure: number = 50,
+  dewPoint: number = MEDICAL_AIR_DEW_POINT,
+  standbyUnits: number = 1
+): SourcePlantSizing {
+  return sizeCompressorPlant('air', designFlow, linePressure, dewPoint, standbyUnits);
+}
+
+export function sizeInstrumentAirPlant(
+  designFlow: number,
+  linePressure: number = 180,
+  dewPoint: number = INSTRUMENT_AIR_DEW_POINT,
+  standbyUnits: number = 1
+): SourcePlantSizing {
+  return sizeCompressorPlant('instrument_air', designFlow, linePressure, dewPoint, standbyUnits);
+}
+
+// A dedicated WAGD producer is sized like a vacuum plant
+export function sizeVacuumPlant(
+  designFlow: number,
+  gasType: 'vacuum' | 'wagd' = 'vacuum',
+  standbyUnits: number = 1
+): SourcePlantSizing {
+  return buildPlant(gasType, designFlow, VACUUM_TECHNOLOGIES,
+    firmCapacity => firmCapacity * VACUUM_RECEIVER_GALLONS_PER_SCFM,
+    () => null,
+    standbyUnits);
+}
+
+// Priced lines in the shape of estimate Equipment records
+export function plantEquipmentLines(plant: SourcePlantSizing): SupplyEquipmentLine[] {
+  const costCode = GAS_SYSTEM_COST_CODES[plant.gasType];
+  const names = PLANT_NAMES[plant.gasType];
+  const installed = (unitCost: number) => Math.round(unitCost * INSTALLATION_FRACTION);
+  const lines: SupplyEquipmentLine[] = [
+    {
+      name: `${plant.technologyLabel} ${names.unit} (${plant.unitHorsepower} HP)`,
+      category: 'Medical Gas',
+      costCode,
+      quantity: plant.units,
+      unitCost: plant.unitCost,
+      installationCost: installed(plant.unitCost),
+      powerRequirement: `${plant.unitHorsepower} HP`,
+      description: `${plant.arrangement} plant, ${plant.firmCapacity.toFixed(1)} SCFM with ${plant.standbyUnits} standby unit${plant.standbyUnits === 1 ? '' : 's'} out of service`,
+      maintenanceRequired: true
+    },
+    {
+      name: `${names.receiver} receiver (${plant.receiverGallons} gal)`,
+      category: 'Medical Gas',
+      costCode,
+      quantity: 1,
+      unitCost: plant.receiverCost,
+      installationCost: installed(plant.receiverCost),
+      maintenanceRequired: false
+    }
+  ];
+
+  if (plant.dryer) {
+    lines.push({
+      name: `Desiccant air dryer (${plant.dryer.capacity.toFixed(0)} SCFM)`,
+      category: 'Medical Gas',
+      costCode,
+      quantity: plant.dryer.count,
+      unitCost: plant.dryer.unitCost,
+      installationCost: installed(plant.dryer.unitCost),
+      description: `${plant.dryer.pressureDewPoint}°F pressure dew point, ${plant.dryer.moistureLoad.toFixed(2)} lb/hr moisture load`,
+      maintenanceRequired: true
+    });
+  }
+
+  return lines;
+}
@@ -1,6 +1,10 @@
 // Professional Template Engine for Healthcare Facilities
 // Enterprise-grade template system for multi-billion dollar healthcare organizations
 
+import { DEFAULT_RATES, RateTableRates } from '@/lib/pricing/rate-tables';
+import { MarkupEntry, TEMPLATE_MARKUP_STACK } from '@/lib/pricing/markups';
+import { CostSummary, priceEstimate, toCostSummary } from '@/lib/pricing/engine';
+
 export interface RoomTemplate {
   name: string;
   type: string;
@@ -11,6 +15,10 @@ export interface RoomTemplate {
   vacuumOutlets: number;
   co2Outlets: number;
   n2oOutlets: number;
+  wagdOutlets?: number;
+  nitrogenOutlets?: number; // 160-200 psi, surgical tools
+  instrumentAirOutlets?: number; // 160-200 psi, surgical tools
+  argonOutlets?: number;
   pressureRequirement: 'Standard' | 'High' | 'Low' | 'Variable';
   backupRequired: boolean;
   specialRequirements?: string;
@@ -50,6 +58,7 @@ export interface FacilityTemplate {
   equipment: EquipmentTemplate[];
   specialRequirements: string[];
   complianceStandards: string[];
+  markupStack?: MarkupEntry[]; // defaults to TEMPLATE_MARKUP_STACK
   projectData: {
     facilityType: string;
     specialRequirements: string;
@@ -105,6 +114,8 @@ class TemplateService {
           vacuumOutlets: 6,
           co2Outlets: 2,
           n2oOutlets: 4,
+          wagdOutlets: 2,
+          nitrogenOutlets: 1,
           pressureRequirement: 'High',
           backupRequired: true,
           specialRequirements: 'Laminar flow ceiling, surgical lights integration',
@@ -125,6 +136,9 @@ class TemplateService {
           vacuumOutlets: 8,
           co2Outlets: 4,
           n2oOutlets: 4,
+          wagdOutlets: 2,
+          nitrogenOutlets: 1,
+          argonOutlets: 1,
           pressureRequirement: 'High',
           backupRequired: true,
           specialRequirements: 'Enhanced backup systems, specialized cardiac equipment integration',
@@ -672,8 +686,15 @@ class TemplateService {
     return this.templates.get(id);
   }
 
-  // Create a new estimate from template
-  createEstimateFromTemplate(templateId: string, customizations?: Partial<FacilityTemplate>) {
+  // Create a new estimate from template, priced against the given rate table.
+  // The rate table id and rates are kept on the estimate so later edits and
+  // views price on the same basis.
+  createEstimateFromTemplate(
+    templateId: string,
+    customizations?: Partial<FacilityTemplate>,
+    pricing: { rateTableId: string | null; rates: RateTableRates } = { rateTableId: null, rates: DEFAULT_RATES }
+  ) {
+    const { rateTableId, rates } = pricing;
     const template = this.getTemplate(templateId);
     if (!template) {
       throw new Error(`Template ${templateId} not found`);
@@ -693,7 +714,7 @@ class TemplateService {
       },
       rooms: template.rooms.map(room => ({ ...room })),
       equipment: template.equipment.map(eq => ({ ...eq })),
-      costs: this.calculateTemplateCosts(template),
+      costs: this.calculateTemplateCosts(template, rates),
       totalCost: 0, // Will be calculated
       createdAt: new Date().toISOString(),
       lastModified: new Date().toISOString(),
@@ -707,6 +728,8 @@ class TemplateService {
         details: `Created from ${template.name} template`
       }],
       templateId: templateId,
+      rateTableId,
+      rates,
       specialRequirements: template.specialRequirements,
       complianceStandards: template.complianceStandards,
       medicalGasRequirements: template.medicalGasRequirements,
@@ -715,7 +738,7 @@ class TemplateService {
     };
 
     // Calculate total cost
-    const costs = this.calculateTemplateCosts(template);
+    const costs = this.calculateTemplateCosts(template, rates);
     estimateData.costs = costs;
     estimateData.totalCost = costs.total;
 
@@ -723,64 +746,16 @@ class TemplateService {
   }
 
   // Calculate costs for a template
-  private calculateTemplateCosts(template: FacilityTemplate) {
-    const equipmentCost = template.equipment.reduce((sum, item) =>
-      sum + (item.quantity * item.unitCost), 0
-    );
+  private calculateTemplateCosts(template: FacilityTemplate, rates: RateTableRates = DEFAULT_RATES): CostSummary {
+    const markupStack = template.markupStack || TEMPLATE_MARKUP_STACK;
 
-    const installationCost = template.equipment.reduce((sum, item) =>
-      sum + item.installationCost, 0
-    );
-
-    // Enhanced medical gas calculations
-    let medicalGasCost = 0;
-    template.rooms.forEach(room => {
-      const outletCosts = {
-        oxygen: room.oxygenOutlets * 1500,
-        air: room.airOutlets * 1200,
-        vacuum: room.vacuumOutlets * 1400,
-        co2: room.co2Outlets * 1300,
-        n2o: room.n2oOutlets * 1350
-      };
-
-      const pipingCost = room.area * 30; // Higher cost for template-based systems
-
-      const complexityMultipliers = {
-        'Operating Room': 1.5,
-        'ICU': 1.3,
-        'Emergency Room': 1.4,
-        'Recovery Room': 1.1,
-        'Patient Room': 1.0,
-        'Support Room': 0.8
-      };
-
-      const multiplier = complexityMultipliers[room.type as keyof typeof complexityMultipliers] || 1.0;
-      const roomTotal = (Object.values(outletCosts).reduce((sum: number, cost: number) => sum + cost, 0) + pipingCost) * multiplier;
-
-      medicalGasCost += roomTotal;
+    const result = priceEstimate(template.rooms, template.equipment, {
+      rates,
+      markupStack,
+      redundancyLevel: template.medicalGasRequirements.redundancyLevel
     });
 
-    // Add template-specific system costs
-    if (template.medicalGasRequirements.redundancyLevel === 'Triple') {
-      medicalGasCost *= 1.5;
-    } else if (template.medicalGasRequirements.redundancyLevel === 'Dual') {
-      medicalGasCost *= 1.2;
-    }
-
-    const subtotal = equipmentCost + installationCost + medicalGasCost;
-    const complianceCost = subtotal * 0.18; // Higher compliance cost for templates
-    const contingencyCost = subtotal * 0.12; // Higher contingency for complex systems
-
-    const total = subtotal + complianceCost + contingencyCost;
-
-    return {
-      equipment: equipmentCost,
-      installation: installationCost,
-      medicalGas: medicalGasCost,
-      compliance: complianceCost,
-      contingency: contingencyCost,
-      total
-    };
+    return toCostSummary(result);
   }
 
   // Save a custom template
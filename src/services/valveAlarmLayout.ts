@@ -0,0 +1,253 @@
+// Zone Valve and Alarm Layout
+// Generates zone valve boxes, area alarm panels and master alarm panels from
+// rooms grouped by floor and department, per NFPA 99-2021 Sections 5.1.4 and 5.1.9
+
+import type { MedicalGasSystem, RoomGasRequirements } from './medicalGasEngineering';
+import { AREA_TYPE_LABELS, AreaType, getAreaType } from './gasDemandTables';
+import { isVacuumService } from './gasProperties';
+
+export interface AlarmZone {
+  id: string;
+  floor: string;
+  department: string;
+  rooms: string[]; // room ids
+  gases: string[];
+}
+
+export interface ZoneValveBox {
+  id: string;
+  zoneId: string;
+  servesRooms: string[];
+  gases: string[]; // one valve per gas in the box
+  reason: string;
+  cost: number;
+}
+
+export interface AreaAlarmPanel {
+  id: string;
+  zoneId: string;
+  monitorsRooms: string[];
+  signals: string[];
+  cost: number;
+}
+
+export interface MasterAlarmPanel {
+  id: string;
+  location: string;
+  signals: string[];
+  signalCapacity: number; // panel size selected for the signal count
+  cost: number;
+}
+
+export interface BillOfMaterialsLine {
+  item: string;
+  quantity: number;
+  unitCost: number;
+  totalCost: number;
+}
+
+export interface ValveAlarmLayout {
+  zones: AlarmZone[];
+  zoneValveBoxes: ZoneValveBox[];
+  areaAlarms: AreaAlarmPanel[];
+  masterAlarms: MasterAlarmPanel[];
+  billOfMaterials: BillOfMaterialsLine[];
+  totalCost: number;
+}
+
+const DEFAULT_FLOOR = 'Level 1';
+
+// Areas needing a local area alarm (NFPA 99 5.1.9.3)
+const AREA_ALARM_TYPES: AreaType[] = ['anesthetizing', 'critical_care', 'neonatal'];
+
+const GAS_LABELS: Record<string, string> = {
+  oxygen: 'Oxygen',
+  air: 'Medical air',
+  vacuum: 'Vacuum',
+  n2o: 'Nitrous oxide',
+  co2: 'Carbon dioxide',
+  nitrogen: 'Nitrogen',
+  argon: 'Argon',
+  wagd: 'WAGD',
+  instrument_air: 'Instrument air'
+};
+
+const MASTER_ALARM_SIZES = [5, 10, 20, 30, 40, 60]; // signal points
+const ZONE_VALVE_BOX_COST = 800;
+const ZONE_VALVE_COST_PER_GAS = 350;
+const AREA_ALARM_BASE_COST = 2500;
+const AREA_ALARM_COST_PER_SIGNAL = 300;
+const MASTER_ALARM_BASE_COST = 6000;
+const MASTER_ALARM_COST_PER_POINT = 250;
+
+const gasLabel = (gasType: string) => GAS_LABELS[gasType] ?? gasType;
+
+function pipedGases(room: RoomGasRequirements): string[] {
+  return Array.from(new Set(room.outlets.filter(outlet => outlet.quantity > 0).map(outlet => outlet.type)));
+}
+
+// Line pressure high and low for gases; low vacuum only for vacuum services
+function areaAlarmSignals(gases: string[]): string[] {
+  return gases.flatMap(gasType => isVacuumService(gasType)
+    ? [`${gasLabel(gasType)} low`]
+    : [`${gasLabel(gasType)} pressure high`, `${gasLabel(gasType)} pressure low`]);
+}
+
+// Source and line signals reported at the master alarm for one gas system
+export function masterAlarmSignals(system: MedicalGasSystem): string[] {
+  const label = gasLabel(system.gasType);
+  const line = isVacuumService(system.gasType)
+    ? [`${label} main line vacuum low`]
+    : [`${label} main line pressure high`, `${label} main line pressure low`];
+
+  if (system.equipment.plant) {
+    if (isVacuumService(system.gasType)) {
+      return [`Lag ${label} producer in use`, `${label} producer local alarm`, ...line];
+    }
+    // Carbon monoxide monitoring applies to breathing air only
+    const carbonMonoxide = system.gasType === 'air' ? ['Medical air high carbon monoxide'] : [];
+    return [`Lag ${label.toLowerCase()} compressor in use`, `${label} high dew point`, ...carbonMonoxide, `${label} compressor local alarm`, ...line];
+  }
+
+  const supply = system.equipment.supply;
+  if (supply?.kind === 'bulk_liquid') {
+    return [`${label} main supply low`, `${label} reserve in use`, `${label} reserve low`, ...line];
+  }
+
+  return [`${label} changeover to secondary supply`, ...line];
+}
+
+// ===== LAYOUT =====
+
+export function generateValveAlarmLayout(
+  rooms: RoomGasRequirements[],
+  systems: Map<string, MedicalGasSystem>
+): ValveAlarmLayout {
+  // Group rooms with piped gases by floor and department
+  const zones = new Map<string, AlarmZone>();
+  rooms.forEach(room => {
+    const gases = pipedGases(room);
+    if (gases.length === 0) return;
+
+    const floor = room.floor || DEFAULT_FLOOR;
+    const department = room.department || AREA_TYPE_LABELS[getAreaType(room.roomType)];
+    const id = `${floor} / ${department}`;
+    const zone = zones.get(id) ?? { id, floor, department, rooms: [], gases: [] };
+    zone.rooms.push(room.roomId);
+    gases.forEach(gasType => {
+      if (!zone.gases.includes(gasType)) zone.gases.push(gasType);
+    });
+    zones.set(id, zone);
+  });
+
+  const roomsById = new Map(rooms.map(room => [room.roomId, room]));
+  const zoneValveBoxes: ZoneValveBox[] = [];
+  const areaAlarms: AreaAlarmPanel[] = [];
+
+  zones.forEach(zone => {
+    const zoneRooms = zone.rooms.map(roomId => roomsById.get(roomId)!);
+    const anesthetizing = zoneRooms.filter(room => getAreaType(room.roomType) === 'anesthetizing');
+    const others = zoneRooms.filter(room => getAreaType(room.roomType) !== 'anesthetizing');
+
+    // Each anesthetizing location gets its own box (NFPA 99 5.1.4.6.1)
+    anesthetizing.forEach(room => {
+      const gases = pipedGases(room);
+      zoneValveBoxes.push({
+        id: `ZVB-${zoneValveBoxes.length + 1}`,
+        zoneId: zone.id,
+        servesRooms: [room.roomId],
+        gases,
+        reason: 'Anesthetizing location',
+        cost: ZONE_VALVE_BOX_COST + ZONE_VALVE_COST_PER_GAS * gases.length
+      });
+    });
+
+    // One box isolates the rest of the zone (NFPA 99 5.1.4.8)
+    if (others.length > 0) {
+      const gases = Array.from(new Set(others.flatMap(pipedGases)));
+      zoneValveBoxes.push({
+        id: `ZVB-${zoneValveBoxes.length + 1}`,
+        zoneId: zone.id,
+        servesRooms: others.map(room => room.roomId),
+        gases,
+        reason: 'Zone isolation',
+        cost: ZONE_VALVE_BOX_COST + ZONE_VALVE_COST_PER_GAS * gases.length
+      });
+    }
+
+    const alarmedRooms = zoneRooms.filter(room => AREA_ALARM_TYPES.includes(getAreaType(room.roomType)));
+    if (alarmedRooms.length > 0) {
+      const signals = areaAlarmSignals(Array.from(new Set(alarmedRooms.flatMap(pipedGases))));
+      areaAlarms.push({
+        id: `AA-${areaAlarms.length + 1}`,
+        zoneId: zone.id,
+        monitorsRooms: alarmedRooms.map(room => room.roomId),
+        signals,
+        cost: AREA_ALARM_BASE_COST + AREA_ALARM_COST_PER_SIGNAL * signals.length
+      });
+    }
+  });
+
+  // Two master alarm panels in separate locations (NFPA 99 5.1.9.2.1)
+  const signals = Array.from(systems.values())
+    .filter(system => system.peakDemand > 0)
+    .flatMap(masterAlarmSignals);
+  const signalCapacity = MASTER_ALARM_SIZES.find(size => size >= signals.length)
+    ?? MASTER_ALARM_SIZES[MASTER_ALARM_SIZES.length - 1];
+  const masterAlarms: MasterAlarmPanel[] = signals.length === 0 ? [] : [
+    'Facility engineering office',
+    'Continuously staffed location'
+  ].map((location, i) => ({
+    id: `MA-${i + 1}`,
+    location,
+    signals,
+    signalCapacity,
+    cost: MASTER_ALARM_BASE_COST + MASTER_ALARM_COST_PER_POINT * signalCapacity
+  }));
+
+  // Bill of materials, grouped by item description
+  const lines = new Map<string, BillOfMaterialsLine>();
+  const addLine = (item: string, unitCost: number) => {
+    const line = lines.get(item) ?? { item, quantity: 0, unitCost, totalCost: 0 };
+    line.quantity += 1;
+    line.totalCost += unitCost;
+    lines.set(item, line);
+  };
+  zoneValveBoxes.forEach(box => addLine(`Zone valve box, ${box.gases.length} gas`, box.cost));
+  areaAlarms.forEach(panel => addLine(`Area alarm panel, ${panel.signals.length} signal`, panel.cost));
+  masterAlarms.forEach(panel => addLine(`Master alarm panel, ${panel.signalCapacity} point`, panel.cost));
+  const billOfMaterials = Array.from(lines.values());
+
+  return {
+    zones: Array.from(zones.values()),
+    zoneValveBoxes,
+    areaAlarms,
+    masterAlarms,
+    billOfMaterials,
+    totalCost: billOfMaterials.reduce((sum, line) => sum + line.totalCost, 0)
+  };
+}
+
+// Every piped room needs a zone valve for each of its gases; anesthetizing and
+// critical care rooms also need an area alarm
+export function checkValveAlarmCoverage(rooms: RoomGasRequirements[], layout: ValveAlarmLayout) {
+  const missingValves: string[] = [];
+  const missingAlarms: string[] = [];
+
+  rooms.forEach(room => {
+    const gases = pipedGases(room);
+    if (gases.length === 0) return;
+
+    const boxes = layout.zoneValveBoxes.filter(box => box.servesRooms.includes(room.roomId));
+    if (gases.some(gasType => !boxes.some(box => box.gases.includes(gasType)))) {
+      missingValves.push(room.roomName);
+    }
+
+    if (AREA_ALARM_TYPES.includes(getAreaType(room.roomType))
+      && !layout.areaAlarms.some(panel => panel.monitorsRooms.includes(room.roomId))) {
+      missingAlarms.push(room.roomName);
+    }
+  });
+
+  return { missingValves, missingAlarms };
+}